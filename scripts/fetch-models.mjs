@@ -0,0 +1,42 @@
+// Downloads the MediaPipe hand, face and segmentation models into public/ so it ships with the build.
+// Run once after cloning: npm run fetch-models
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const MODELS_DIR = path.join(ROOT, 'public/mediapipe/models');
+
+const MODELS = [
+  {
+    file: 'hand_landmarker.task',
+    url: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  },
+  {
+    // Only used by the optional head-parallax mode
+    file: 'face_landmarker.task',
+    url: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+  },
+  {
+    // Only used by the optional selfie cutout
+    file: 'selfie_segmenter.tflite',
+    url: 'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite',
+  },
+];
+
+fs.mkdirSync(MODELS_DIR, { recursive: true });
+
+for (const model of MODELS) {
+  const target = path.join(MODELS_DIR, model.file);
+  if (fs.existsSync(target)) {
+    console.log(`✓ ${model.file} (already present)`);
+    continue;
+  }
+  const res = await fetch(model.url);
+  if (!res.ok) {
+    console.error(`✗ ${model.file}: HTTP ${res.status}`);
+    process.exit(1);
+  }
+  fs.writeFileSync(target, Buffer.from(await res.arrayBuffer()));
+  console.log(`✓ ${model.file}`);
+}
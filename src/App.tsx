@@ -1,8 +1,28 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import ChristmasCanvas from './components/ChristmasCanvas';
-import { VisionResult, AppMode, Gift, STICKERS } from './types';
-import { Camera, Hand, Sparkles, Edit3, Volume2, VolumeX, QrCode, X, Link as LinkIcon, Check, Gift as GiftIcon, Plus, Trash2, Download, CircleHelp } from 'lucide-react';
+import CameraPreview from './components/CameraPreview';
+import CameraSettingsPanel from './components/CameraSettingsPanel';
+import CalibrationWizard from './components/CalibrationWizard';
+import BindingsPanel from './components/BindingsPanel';
+import AirDrawingPad from './components/AirDrawingPad';
+import EffectsPanel from './components/EffectsPanel';
+import { VisionResult, AppMode, Gift, Gesture, HandSlot, MotionGesture, STICKERS, EMPTY_VISION_RESULT } from './types';
+import { DEFAULT_GESTURE_THRESHOLDS, GestureThresholds, isTwoPeople } from './utils/gestures';
+import { VisionLoadError, VisionLoadErrorCode, VisionLoadProgress, VisionService } from './services/visionService';
+import { CameraInputProvider, CameraStatus, InputProvider, InputProviderKind, createInputProvider } from './services/inputProviders';
+import { LandmarkRecorder, LandmarkRecording, downloadRecording, parseRecording } from './services/landmarkRecorder';
+import { GestureEvent } from './services/gestureFilter';
+import { MotionEvent } from './services/motionDetector';
+import { BindingAction, BindingTrigger, DEFAULT_BINDINGS, GestureBindings, StaticGesture, actionFor, decodeBindings, encodeBindings, loadBindings, sameBindings, saveBindings } from './services/gestureBindings';
+import { SceneThemeId, nextThemeId } from './utils/themes';
+import { FORMATIONS, FORMATION_IDS, FormationId, getFormation, isFormationId, nextFormationId } from './utils/geometry';
+import { decodeParticleImage, encodePhoto } from './utils/particleImage';
+import { QualityTier } from './utils/quality';
+import { CameraSettings, loadCameraSettings, saveCameraSettings } from './services/cameraSettings';
+import { EffectSettings, loadEffectSettings, saveEffectSettings } from './services/effectSettings';
+import { CalibrationProfile, clearCalibration, loadCalibration, saveCalibration } from './services/calibration';
+import { Camera, ScanEye, Settings, SlidersHorizontal, Gamepad2, Magnet, Smile, Circle, Square, Upload, Keyboard, MousePointer2, Clapperboard, Hand, Sparkles, Edit3, Volume2, VolumeX, QrCode, X, Link as LinkIcon, Check, Gift as GiftIcon, Plus, Trash2, Download, CircleHelp, PenLine, ImagePlus } from 'lucide-react';
 
 const WISHES = [
   "Giáng Sinh An Lành",
@@ -18,14 +38,81 @@ const WISHES = [
 // Using local file from public directory
 const AUDIO_URL = "./nhac-noel.mp3";
 
+// On-screen labels for recognized gestures
+const GESTURE_LABELS: Record<Gesture, string> = {
+  None: '...',
+  Closed_Fist: 'Nắm tay ✊',
+  Open_Palm: 'Mở tay ✋',
+  Pointing: 'Chỉ tay ☝️',
+  Victory: 'Chữ V ✌️',
+  Thumb_Up: 'Like 👍',
+  Pinch: 'Chụm tay 🤏',
+  ILoveYou: 'I Love You 🤟',
+};
+
+const MOTION_LABELS: Record<MotionGesture, string> = {
+  Swipe_Left: 'Vuốt trái 👈',
+  Swipe_Right: 'Vuốt phải 👉',
+  Swipe_Up: 'Vuốt lên 👆',
+  Swipe_Down: 'Vuốt xuống 👇',
+  Circle: 'Vẽ vòng tròn 🔄',
+  Wave: 'Vẫy tay 👋',
+};
+
+// User-facing messages for hand-tracking load failures
+const VISION_ERROR_MESSAGES: Record<VisionLoadErrorCode, string> = {
+  VERSION_MISMATCH: "Phiên bản nhận diện tay không khớp, hãy tải lại trang.",
+  RUNTIME_FAILED: "Không tải được bộ nhận diện tay.",
+  MODEL_FAILED: "Không tải được mô hình bàn tay.",
+  INIT_FAILED: "Thiết bị không khởi động được nhận diện tay.",
+};
+
+// Input provider switcher (order = fallback order shown in the UI)
+const INPUT_OPTIONS: { kind: InputProviderKind, label: string, Icon: typeof Camera }[] = [
+  { kind: 'camera', label: 'Camera (cử chỉ tay)', Icon: Camera },
+  { kind: 'pointer', label: 'Chuột / Cảm ứng', Icon: MousePointer2 },
+  { kind: 'keyboard', label: 'Bàn phím', Icon: Keyboard },
+  { kind: 'scripted', label: 'Trình diễn tự động', Icon: Clapperboard },
+];
+
 // Production Domain
 const PROD_DOMAIN = "https://christmas-tree-2025-moko.vercel.app/";
 
 export default function App() {
-  const [visionState, setVisionState] = useState<VisionResult>({ gesture: 'None', isPresent: false });
+  const [visionState, setVisionState] = useState<VisionResult>(EMPTY_VISION_RESULT);
   const [mode, setMode] = useState<AppMode>(AppMode.TREE);
   const [loading, setLoading] = useState(true);
-  const [cameraAllowed, setCameraAllowed] = useState(false);
+  const [started, setStarted] = useState(false);
+  const [inputKind, setInputKind] = useState<InputProviderKind>('camera');
+  const [input, setInput] = useState<InputProvider | null>(null);
+  const [cameraDenied, setCameraDenied] = useState(false);
+
+  // Debug tools (?debug=1): landmark recording / replay
+  const [debugMode] = useState(() => new URLSearchParams(window.location.search).has('debug'));
+  // Hand detection rate (?detectFps=15 for slower devices), independent from the render rate
+  const [detectionFps] = useState(() => Number(new URLSearchParams(window.location.search).get('detectFps')) || undefined);
+  const recorderRef = useRef(new LandmarkRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<LandmarkRecording | null>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const [showCameraPreview, setShowCameraPreview] = useState(false);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [showCameraSettings, setShowCameraSettings] = useState(false);
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus>('active');
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(loadCalibration);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [bindings, setBindings] = useState<GestureBindings>(loadBindings);
+  const [showBindings, setShowBindings] = useState(false);
+  const [effects, setEffects] = useState<EffectSettings>(loadEffectSettings);
+  const [qualityTier, setQualityTier] = useState<QualityTier | null>(null); // Reported by the scene
+  const [showEffects, setShowEffects] = useState(false);
+  const [theme, setTheme] = useState<SceneThemeId>('classic');
+  const [formation, setFormation] = useState<FormationId>('tree');
+  const [photo, setPhoto] = useState<string | null>(null); // Sender's photo as a particle image code
+  const [snapshotRequest, setSnapshotRequest] = useState(0);
+  const [visionLoad, setVisionLoad] = useState<VisionLoadProgress | null>(null);
+  const [visionError, setVisionError] = useState<VisionLoadError | null>(null);
   const [recipientName, setRecipientName] = useState<string>("");
   const [currentWish, setCurrentWish] = useState(WISHES[0]);
 
@@ -42,11 +129,17 @@ export default function App() {
   const [giftList, setGiftList] = useState<Gift[]>([]);
   const [giftInputMsg, setGiftInputMsg] = useState("");
   const [giftInputSticker, setGiftInputSticker] = useState(STICKERS[0]);
+  const [giftInputDrawing, setGiftInputDrawing] = useState<string | null>(null);
   const [showGiftBuilder, setShowGiftBuilder] = useState(false);
+  const [showAirDrawing, setShowAirDrawing] = useState(false);
 
   // Recipient State
   const [unopenedGifts, setUnopenedGifts] = useState<Gift[]>([]);
   const [activeGift, setActiveGift] = useState<Gift | null>(null);
+  const [openedGifts, setOpenedGifts] = useState<Gift[]>([]);
+  const [lastMotion, setLastMotion] = useState<MotionGesture | null>(null);
+  // Two-person mode: each gift belongs to one of the two tracked hands
+  const [giftOwners, setGiftOwners] = useState<Record<string, HandSlot>>({});
 
   // Music State
   const [isMusicPlaying, setIsMusicPlaying] = useState(false);
@@ -91,6 +184,9 @@ export default function App() {
       const searchParams = new URLSearchParams(window.location.search);
       let to = searchParams.get('to');
       let giftsStr = searchParams.get('gifts');
+      let bindingsStr = searchParams.get('bindings');
+      let shape = searchParams.get('shape');
+      let photoStr = searchParams.get('photo');
 
       // 2. Check Hash Params (#/?to=... or #to=...)
       if (window.location.hash.includes('?')) {
@@ -99,12 +195,15 @@ export default function App() {
           const hashParams = new URLSearchParams(hashParts[1]);
           if (hashParams.has('to')) to = hashParams.get('to');
           if (hashParams.has('gifts')) giftsStr = hashParams.get('gifts');
+          if (hashParams.has('bindings')) bindingsStr = hashParams.get('bindings');
+          if (hashParams.has('shape')) shape = hashParams.get('shape');
+          if (hashParams.has('photo')) photoStr = hashParams.get('photo');
         }
       }
-      return { to, giftsStr };
+      return { to, giftsStr, bindingsStr, shape, photoStr };
     };
 
-    const { to, giftsStr } = getParams();
+    const { to, giftsStr, bindingsStr, shape, photoStr } = getParams();
 
     if (to && to.trim() !== '') {
       console.log("Recipient Detected:", to);
@@ -114,15 +213,38 @@ export default function App() {
 
     if (giftsStr) {
       try {
-        const parsedGifts = JSON.parse(decodeURIComponent(giftsStr));
-        if (Array.isArray(parsedGifts) && parsedGifts.length > 0) {
+        const parsed = JSON.parse(decodeURIComponent(giftsStr));
+        // A drawing that isn't a string can't be a stroke code; keep the rest of the gift
+        const parsedGifts = Array.isArray(parsed)
+          ? parsed.map(({ drawing, ...gift }: Gift) => (typeof drawing === 'string' ? { ...gift, drawing } : gift))
+          : [];
+        if (parsedGifts.length > 0) {
           console.log("Gifts received:", parsedGifts);
           setUnopenedGifts(parsedGifts);
+          // Alternate gifts between the two players
+          const owners: Record<string, HandSlot> = {};
+          parsedGifts.forEach((g: Gift, i: number) => { owners[g.id] = (i % 2) as HandSlot; });
+          setGiftOwners(owners);
         }
       } catch (e) {
         console.error("Failed to parse gifts", e);
       }
     }
+
+    // Sender's custom gesture bindings (used for this visit, not saved)
+    if (bindingsStr !== null) {
+      const linked = decodeBindings(bindingsStr);
+      if (linked) setBindings(linked);
+      else console.error("Invalid gesture bindings in link:", bindingsStr);
+    }
+
+    // Shape the sender picked for the tree
+    if (shape && isFormationId(shape)) setFormation(shape);
+
+    if (photoStr) {
+      if (decodeParticleImage(photoStr)) setPhoto(photoStr);
+      else console.error("Invalid photo in link");
+    }
   }, []);
 
   // Safe Play Function (Protected by Lock)
@@ -167,68 +289,254 @@ export default function App() {
     }
   };
 
-  // Cycle through wishes
+  // Cycle through wishes (restarts after a swipe so the chosen wish stays a while)
   useEffect(() => {
-    const interval = setInterval(() => {
+    const timeout = setTimeout(() => {
       const randomIndex = Math.floor(Math.random() * WISHES.length);
       setCurrentWish(WISHES[randomIndex]);
     }, 4000); // Change every 4 seconds
-    return () => clearInterval(interval);
-  }, []);
+    return () => clearTimeout(timeout);
+  }, [currentWish]);
 
-  // --- LOGIC: Mode Switching & Gift Opening ---
-  useEffect(() => {
-    // Determine mode based on gesture
-    if (visionState.gesture === 'Closed_Fist') {
-      setMode(AppMode.TREE);
-      // Close gift if open
-      if (activeGift) {
+  const cycleWish = (step: number) => {
+    const index = WISHES.indexOf(currentWish);
+    setCurrentWish(WISHES[(index + step + WISHES.length) % WISHES.length]);
+  };
+
+  // --- LOGIC: Gesture Actions ---
+  // Gestures only pick an action from the binding table; the actions live here
+  const openNextGift = (slot: HandSlot) => {
+    setMode(AppMode.SPHERE);
+
+    // Open a random gift if available and not already showing one
+    if (!activeGift && unopenedGifts.length > 0) {
+      // With two people in frame, each one only draws from their own share
+      const mine = unopenedGifts.filter(g => giftOwners[g.id] === slot);
+      const pool = isTwoPeople(visionState.hands) && mine.length > 0 ? mine : unopenedGifts;
+      const selectedGift = pool[Math.floor(Math.random() * pool.length)];
+
+      setActiveGift(selectedGift);
+      setOpenedGifts([...openedGifts, selectedGift]);
+
+      // Remove from unopened list
+      setUnopenedGifts(unopenedGifts.filter(g => g.id !== selectedGift.id));
+    }
+  };
+
+  // Flips through opened gifts while one is showing, otherwise through wishes
+  const cycleItem = (step: number) => {
+    if (activeGift && mode === AppMode.SPHERE && openedGifts.length > 1) {
+      const index = openedGifts.findIndex(g => g.id === activeGift.id);
+      setActiveGift(openedGifts[(index + step + openedGifts.length) % openedGifts.length]);
+    } else {
+      cycleWish(step);
+    }
+  };
+
+  // The photo shape only exists once a photo is set
+  const availableFormations = FORMATION_IDS.filter(id => id !== 'photo' || photo);
+
+  const showFormation = (next: FormationId) => {
+    setFormation(next);
+    setMode(AppMode.TREE);
+    setActiveGift(null);
+  };
+
+  const runAction = (action: BindingAction, slot: HandSlot) => {
+    if (action.startsWith('formation:')) {
+      const id = action.slice('formation:'.length);
+      if (isFormationId(id) && availableFormations.includes(id)) showFormation(id);
+      return;
+    }
+    switch (action) {
+      case 'show_tree':
+        setMode(AppMode.TREE);
+        setActiveGift(null); // Close gift if open
+        break;
+      case 'show_sphere':
+        setMode(AppMode.SPHERE);
+        break;
+      case 'open_gift':
+        openNextGift(slot);
+        break;
+      case 'close_gift':
         setActiveGift(null);
-      }
-    } else if (visionState.gesture === 'Open_Palm') {
-      setMode(AppMode.SPHERE);
+        break;
+      case 'next_item':
+        cycleItem(1);
+        break;
+      case 'prev_item':
+        cycleItem(-1);
+        break;
+      case 'toggle_music':
+        toggleMusic();
+        break;
+      case 'snapshot':
+        setSnapshotRequest(n => n + 1);
+        break;
+      case 'cycle_theme':
+        setTheme(nextThemeId(theme));
+        break;
+      case 'next_formation':
+        showFormation(nextFormationId(formation, availableFormations));
+        break;
+    }
+  };
 
-      // Open a random gift if available and not already showing one
-      if (!activeGift && unopenedGifts.length > 0) {
-        const randomIndex = Math.floor(Math.random() * unopenedGifts.length);
-        const selectedGift = unopenedGifts[randomIndex];
+  // Driven by stabilized gesture events, so a noisy frame can't open a gift
+  const handleGestureEvent = (event: GestureEvent) => {
+    if (event.type === 'end') return;
+    const trigger: BindingTrigger = event.type === 'hold' ? `${event.gesture as StaticGesture}:hold` : event.gesture as StaticGesture;
+    runAction(actionFor(bindings, trigger), event.slot);
+  };
 
-        setActiveGift(selectedGift);
+  const handleMotionEvent = (event: MotionEvent) => {
+    setLastMotion(event.gesture);
+    runAction(actionFor(bindings, event.gesture), event.slot);
+  };
 
-        // Remove from unopened list
-        const newList = [...unopenedGifts];
-        newList.splice(randomIndex, 1);
-        setUnopenedGifts(newList);
+  // Motion label fades from the status panel
+  useEffect(() => {
+    if (!lastMotion) return;
+    const timeout = setTimeout(() => setLastMotion(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [lastMotion]);
+
+  // --- INPUT PROVIDER LIFECYCLE ---
+  useEffect(() => {
+    if (!started) return;
+    if (inputKind === 'camera') {
+      setVisionError(null);
+      setCameraDenied(false);
+      setCameraStatus('active');
+    }
+
+    const provider = createInputProvider(inputKind, {
+      onProgress: setVisionLoad,
+      onStatus: setCameraStatus,
+      detectionFps,
+      settings: cameraSettings,
+      recording,
+    });
+    setInput(provider);
+    provider.start().catch((err) => {
+      console.error(`Input provider "${inputKind}" failed:`, err);
+      if (inputKind !== 'camera') return;
+      // No camera (denied, missing, or tracker failed): fall back to mouse/touch
+      if (err instanceof VisionLoadError) {
+        setVisionError(err);
+      } else {
+        setCameraDenied(true);
       }
+      setInputKind('pointer');
+    });
+
+    return () => provider.stop();
+    // Mirroring is preview-only and doesn't need a new stream
+  }, [started, inputKind, recording, detectionFps, cameraSettings.deviceId, cameraSettings.width, cameraSettings.height, cameraSettings.frameRate]);
+
+  // Personal gesture thresholds apply to every camera session, and to replays of one
+  useEffect(() => {
+    const thresholds = calibration?.thresholds ?? DEFAULT_GESTURE_THRESHOLDS;
+    VisionService.getInstance().setThresholds(thresholds);
+    input?.setThresholds?.(thresholds);
+  }, [calibration, input]);
+
+  // Face tracking only runs (and its model only loads) while head parallax is on
+  useEffect(() => {
+    VisionService.getInstance().setFaceTracking(effects.headParallax);
+  }, [effects.headParallax]);
+
+  useEffect(() => {
+    VisionService.getInstance().setSegmentation(effects.selfieCutout);
+  }, [effects.selfieCutout]);
+
+  const handleCalibrationSave = (thresholds: GestureThresholds) => {
+    setCalibration(saveCalibration(thresholds));
+  };
+
+  const handleCalibrationReset = () => {
+    clearCalibration();
+    setCalibration(null);
+  };
+
+  const handleBindingsChange = (next: GestureBindings) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  const handleCameraSettingsChange = (settings: CameraSettings) => {
+    setCameraSettings(settings);
+    saveCameraSettings(settings);
+  };
+
+  const handleEffectsChange = (settings: EffectSettings) => {
+    setEffects(settings);
+    saveEffectSettings(settings);
+  };
+
+  // --- DEBUG: Landmark Recording ---
+  const toggleRecording = () => {
+    if (recorderRef.current.isRecording) {
+      downloadRecording(recorderRef.current.stop());
+      setIsRecording(false);
+    } else {
+      recorderRef.current.start();
+      setIsRecording(true);
     }
-  }, [visionState.gesture]); // removed deps to prevent loop, relying on visionState update
-
-  const handleCameraStart = () => {
-    navigator.mediaDevices.getUserMedia({ video: true })
-      .then((stream) => {
-        stream.getTracks().forEach(track => track.stop()); // Stop immediately, just checking permission
-        setCameraAllowed(true);
-        setLoading(false);
-
-        // Auto-play music using Safe Play
-        playAudio();
-      })
-      .catch((err) => {
-        console.error("Camera denied:", err);
-        setLoading(false);
-      });
+  };
+
+  const handleRecordingFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then((text) => {
+      try {
+        setRecording(parseRecording(text));
+        setInputKind('replay');
+      } catch (err) {
+        console.error("Invalid landmark recording", err);
+        alert("File ghi cử chỉ không hợp lệ.");
+      }
+    });
+  };
+
+  const handlePhotoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    createImageBitmap(file).then((bitmap) => {
+      const code = encodePhoto(bitmap);
+      bitmap.close();
+      if (!code) throw new Error("Canvas 2D unavailable");
+      setPhoto(code);
+      showFormation('photo');
+    }).catch((err) => {
+      console.error("Failed to read photo", err);
+      alert("Không đọc được ảnh này.");
+    });
+  };
+
+  const handleStart = () => {
+    setStarted(true);
+    setLoading(false);
+
+    // Auto-play music using Safe Play
+    playAudio();
   };
 
   // --- SENDER: Gift Management ---
   const addGift = () => {
-    if (!giftInputMsg.trim()) return;
+    if (!giftInputMsg.trim() && !giftInputDrawing) return;
     const newGift: Gift = {
       id: Date.now().toString(),
       message: giftInputMsg,
-      sticker: giftInputSticker
+      sticker: giftInputSticker,
+      ...(giftInputDrawing && { drawing: giftInputDrawing })
     };
     setGiftList([...giftList, newGift]);
     setGiftInputMsg("");
+    setGiftInputDrawing(null);
   };
 
   const removeGift = (id: string) => {
@@ -244,6 +552,15 @@ export default function App() {
       const json = JSON.stringify(giftList);
       url.searchParams.set('gifts', encodeURIComponent(json));
     }
+    if (!sameBindings(bindings, DEFAULT_BINDINGS)) {
+      url.searchParams.set('bindings', encodeBindings(bindings));
+    }
+    if (formation !== 'tree') {
+      url.searchParams.set('shape', formation);
+    }
+    if (photo) {
+      url.searchParams.set('photo', photo);
+    }
     return url.toString();
   };
 
@@ -422,11 +739,22 @@ export default function App() {
 
       {/* 3D Scene Background */}
       <div className="absolute inset-0 z-0">
-        {cameraAllowed && (
+        {started && input && (
           <ChristmasCanvas
             targetMode={mode}
             onVisionUpdate={setVisionState}
+            onGestureEvent={handleGestureEvent}
+            onMotionEvent={handleMotionEvent}
             activeGift={activeGift} // Pass the active gift to 3D scene
+            input={input}
+            theme={theme}
+            snapshotRequest={snapshotRequest}
+            effects={effects}
+            onQualityChange={setQualityTier}
+            formation={formation}
+            recipientName={recipientName}
+            wish={currentWish}
+            photo={photo}
           />
         )}
       </div>
@@ -438,13 +766,26 @@ export default function App() {
             <div className="text-6xl md:text-8xl mb-4 drop-shadow-[0_0_20px_rgba(255,215,0,0.8)] animate-bounce">
               {activeGift.sticker}
             </div>
-            <h2 className="text-2xl md:text-4xl font-bold text-yellow-300 drop-shadow-[0_2px_8px_rgba(0,0,0,1)] bg-black/40 backdrop-blur-md px-6 py-4 rounded-xl border border-yellow-500/50" style={{ fontFamily: "'Mountains of Christmas', cursive" }}>
-              {activeGift.message}
-            </h2>
+            {activeGift.message && (
+              <h2 className="text-2xl md:text-4xl font-bold text-yellow-300 drop-shadow-[0_2px_8px_rgba(0,0,0,1)] bg-black/40 backdrop-blur-md px-6 py-4 rounded-xl border border-yellow-500/50" style={{ fontFamily: "'Mountains of Christmas', cursive" }}>
+                {activeGift.message}
+              </h2>
+            )}
           </div>
         </div>
       )}
 
+      {/* Camera Preview (PiP) */}
+      {showCameraPreview && input instanceof CameraInputProvider && (
+        <CameraPreview
+          video={input.video}
+          mirror={cameraSettings.mirror}
+          vision={visionState}
+          gestureLabels={GESTURE_LABELS}
+          onClose={() => setShowCameraPreview(false)}
+        />
+      )}
+
       {/* UI Overlay */}
       <div className="absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6">
 
@@ -493,22 +834,105 @@ export default function App() {
             {isMusicPlaying ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
           </button>
 
+          {/* Input Switcher */}
+          {started && (
+            <div className="flex flex-col gap-1 p-1 rounded-full backdrop-blur-md border bg-black/20 border-white/10 shadow-lg">
+              {INPUT_OPTIONS.map(({ kind, label, Icon }) => (
+                <button
+                  key={kind}
+                  onClick={() => setInputKind(kind)}
+                  title={label}
+                  className={`p-2 rounded-full transition-all ${inputKind === kind ? 'bg-yellow-500/30 text-yellow-300' : 'text-gray-400 hover:bg-black/40 hover:text-white'}`}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+              <button
+                onClick={() => setShowCameraPreview(!showCameraPreview)}
+                disabled={inputKind !== 'camera'}
+                title={showCameraPreview ? "Ẩn camera" : "Xem camera"}
+                className={`p-2 rounded-full transition-all disabled:opacity-30 ${showCameraPreview ? 'bg-blue-500/30 text-blue-200' : 'text-gray-400 hover:bg-black/40 hover:text-white'}`}
+              >
+                <ScanEye className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowCameraSettings(true)}
+                title="Cài đặt camera"
+                className="p-2 rounded-full transition-all text-gray-400 hover:bg-black/40 hover:text-white"
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowCalibration(true)}
+                title="Hiệu chỉnh cử chỉ"
+                className={`p-2 rounded-full transition-all ${calibration ? 'text-green-300' : 'text-gray-400'} hover:bg-black/40 hover:text-white`}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowBindings(true)}
+                title="Gán cử chỉ"
+                className="p-2 rounded-full transition-all text-gray-400 hover:bg-black/40 hover:text-white"
+              >
+                <Gamepad2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowEffects(true)}
+                title="Hiệu ứng"
+                className="p-2 rounded-full transition-all text-gray-400 hover:bg-black/40 hover:text-white"
+              >
+                <Magnet className="w-4 h-4" />
+              </button>
+              {debugMode && (
+                <>
+                  <button
+                    onClick={toggleRecording}
+                    disabled={inputKind !== 'camera'}
+                    title={isRecording ? "Dừng & tải file ghi" : "Ghi cử chỉ (landmarks)"}
+                    className={`p-2 rounded-full transition-all disabled:opacity-30 ${isRecording ? 'bg-red-500/40 text-red-200 animate-pulse' : 'text-gray-400 hover:bg-black/40 hover:text-white'}`}
+                  >
+                    {isRecording ? <Square className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => recordingInputRef.current?.click()}
+                    title="Phát lại file ghi"
+                    className={`p-2 rounded-full transition-all ${inputKind === 'replay' ? 'bg-yellow-500/30 text-yellow-300' : 'text-gray-400 hover:bg-black/40 hover:text-white'}`}
+                  >
+                    <Upload className="w-4 h-4" />
+                  </button>
+                  <input ref={recordingInputRef} type="file" accept="application/json" className="hidden" onChange={handleRecordingFile} />
+                </>
+              )}
+            </div>
+          )}
+
           <div className="hidden md:flex bg-black/20 backdrop-blur-md p-3 rounded-lg border border-white/10 flex-col gap-2 items-end">
             <div className="flex items-center gap-2">
               <span className="text-xs uppercase tracking-wider text-gray-400">Chế độ</span>
               <span className={`font-bold px-2 py-0.5 rounded text-sm transition-colors duration-500 ${mode === AppMode.SPHERE ? 'bg-blue-500/50 text-blue-100' : 'bg-green-500/50 text-green-100'}`}>
-                {mode === AppMode.SPHERE ? 'MỞ QUÀ' : 'CÂY THÔNG'}
+                {mode === AppMode.SPHERE ? 'MỞ QUÀ' : getFormation(formation).label.toUpperCase()}
               </span>
             </div>
             <div className="flex items-center gap-2 text-xs text-gray-300">
               <Hand className="w-3 h-3" />
-              <span>{visionState.isPresent ? (visionState.gesture === 'Closed_Fist' ? 'Nắm tay ✊' : 'Mở tay ✋') : '...'}</span>
+              <span>{visionState.isPresent ? GESTURE_LABELS[visionState.gesture] : '...'}</span>
+              {visionState.isPresent && (
+                <span className="text-gray-500">{Math.round(visionState.confidence * 100)}%</span>
+              )}
             </div>
+            {lastMotion && (
+              <div className="text-xs text-blue-200 animate-fade-in">{MOTION_LABELS[lastMotion]}</div>
+            )}
             {isRecipientMode && unopenedGifts.length > 0 && (
               <div className="text-xs text-yellow-300 font-bold border-t border-white/10 pt-1 mt-1">
                 🎁 Còn {unopenedGifts.length} quà chưa mở!
               </div>
             )}
+            {isRecipientMode && unopenedGifts.length > 0 && isTwoPeople(visionState.hands) && (
+              <div className="text-xs text-blue-200">
+                👥 Người 1: {unopenedGifts.filter(g => giftOwners[g.id] === 0).length} quà • Người 2: {unopenedGifts.filter(g => giftOwners[g.id] === 1).length} quà
+              </div>
+            )}
           </div>
         </div>
 
@@ -532,6 +956,28 @@ export default function App() {
                   />
                 </div>
 
+                {/* Shape Picker (sent with the card) */}
+                <select
+                  value={formation}
+                  onChange={(e) => showFormation(e.target.value as FormationId)}
+                  title="Hình dạng"
+                  className="bg-black/40 backdrop-blur-md px-3 py-2 rounded-full border border-white/20 hover:bg-black/60 text-sm text-white focus:outline-none transition-colors"
+                >
+                  {FORMATIONS.filter(f => f.id !== 'sphere' && (f.id !== 'photo' || photo)).map(f => (
+                    <option key={f.id} value={f.id} className="bg-gray-900">{f.label}</option>
+                  ))}
+                </select>
+
+                {/* Photo Upload (becomes the 'photo' formation) */}
+                <button
+                  onClick={() => photoInputRef.current?.click()}
+                  className={`p-2.5 rounded-full border backdrop-blur-md transition-all ${photo ? 'bg-green-500/30 text-green-200 border-green-400/40' : 'bg-black/40 hover:bg-black/60 text-gray-300 border-white/20'}`}
+                  title="Tạo hình từ ảnh"
+                >
+                  <ImagePlus className="w-5 h-5" />
+                </button>
+                <input ref={photoInputRef} type="file" accept="image/*" className="hidden" onChange={handlePhotoFile} />
+
                 {/* Open Gift Builder */}
                 <button
                   onClick={() => setShowGiftBuilder(true)}
@@ -561,13 +1007,39 @@ export default function App() {
             </div>
           )}
 
+          {/* Input Status */}
+          {started && cameraDenied && inputKind !== 'camera' && (
+            <div className="inline-block bg-black/30 backdrop-blur-sm px-6 py-1.5 rounded-full border border-white/10 text-gray-300 text-xs md:text-sm">
+              Không dùng được camera — đang điều khiển bằng chuột / cảm ứng
+            </div>
+          )}
+          {started && inputKind === 'camera' && cameraStatus !== 'active' && (
+            <div className="inline-block bg-orange-900/40 backdrop-blur-sm px-6 py-1.5 rounded-full border border-orange-500/30 text-orange-200 text-xs md:text-sm">
+              {cameraStatus === 'lost' ? 'Mất kết nối camera — hãy cắm lại camera' : 'Không thấy camera đã chọn — đang dùng camera mặc định'}
+            </div>
+          )}
+          {started && visionError && (
+            <div className="inline-block bg-red-900/40 backdrop-blur-sm px-6 py-1.5 rounded-full border border-red-500/30 text-red-200 text-xs md:text-sm">
+              {VISION_ERROR_MESSAGES[visionError.code]}
+            </div>
+          )}
+          {started && inputKind === 'camera' && !visionError && visionLoad && visionLoad.stage !== 'ready' && (
+            <div className="inline-block bg-black/20 backdrop-blur-sm px-6 py-1.5 rounded-full border border-white/5 text-gray-300 text-xs md:text-sm">
+              Đang tải nhận diện tay... {Math.round(visionLoad.progress * 100)}%
+            </div>
+          )}
+
           {/* Gesture Instructions */}
-          {cameraAllowed && (
+          {started && (
             <div className="inline-block bg-black/20 backdrop-blur-sm px-6 py-1.5 rounded-full border border-white/5 text-gray-300 text-xs md:text-sm">
-              {isRecipientMode && unopenedGifts.length > 0
+              {inputKind === 'pointer' && <span><strong>Chạm nhanh</strong> để mở quà / Cầu • <strong>Giữ</strong> để về Cây</span>}
+              {inputKind === 'keyboard' && <span>Phím <strong>P</strong> ✋ (Cầu / Mở quà) • Phím <strong>F</strong> ✊ (Cây)</span>}
+              {inputKind === 'scripted' && <span>Đang trình diễn tự động ✨</span>}
+              {inputKind === 'replay' && <span>Đang phát lại cử chỉ đã ghi ({recording?.frames.length ?? 0} khung hình)</span>}
+              {inputKind === 'camera' && (isRecipientMode && unopenedGifts.length > 0
                 ? <span>Mở tay ✋ để <strong className="text-yellow-400">NHẬN QUÀ</strong> • Nắm tay ✊ để đóng hộp</span>
                 : <span>Giơ tay trước camera: <strong>Nắm tay</strong> ✊ (Cây) hoặc <strong>Mở tay</strong> ✋ (Cầu)</span>
-              }
+              )}
             </div>
           )}
 
@@ -581,7 +1053,7 @@ export default function App() {
         </div>
 
         {/* Start Modal */}
-        {!cameraAllowed && (
+        {!started && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/90 pointer-events-auto z-50">
             <div className="max-w-md text-center p-8 bg-gray-900/80 backdrop-blur-lg rounded-2xl border border-gray-700 shadow-2xl">
               <Sparkles className="w-16 h-16 text-yellow-500 mx-auto mb-4 animate-spin-slow" />
@@ -590,9 +1062,11 @@ export default function App() {
                 Trải nghiệm thiệp 3D tương tác.
                 <br />
                 Hãy cho phép truy cập Camera để điều khiển.
+                <br />
+                <span className="text-sm text-gray-400">Không có camera? Vẫn dùng được bằng chuột, cảm ứng hoặc bàn phím.</span>
               </p>
               <button
-                onClick={handleCameraStart}
+                onClick={handleStart}
                 className="bg-gradient-to-r from-red-600 to-red-800 hover:from-red-500 hover:to-red-700 text-white font-bold py-3 px-8 rounded-full transition-all transform hover:scale-105 flex items-center gap-2 mx-auto shadow-[0_0_20px_rgba(220,38,38,0.5)]"
               >
                 <Camera className="w-5 h-5" />
@@ -602,6 +1076,47 @@ export default function App() {
           </div>
         )}
 
+        {/* CAMERA SETTINGS */}
+        {showCameraSettings && (
+          <CameraSettingsPanel
+            settings={cameraSettings}
+            onChange={handleCameraSettingsChange}
+            onClose={() => setShowCameraSettings(false)}
+          />
+        )}
+
+        {/* GESTURE CALIBRATION */}
+        {showCalibration && (
+          <CalibrationWizard
+            profile={calibration}
+            cameraReady={inputKind === 'camera' && visionLoad?.stage === 'ready'}
+            onSave={handleCalibrationSave}
+            onReset={handleCalibrationReset}
+            onClose={() => setShowCalibration(false)}
+          />
+        )}
+
+        {/* GESTURE BINDINGS */}
+        {showBindings && (
+          <BindingsPanel
+            bindings={bindings}
+            gestureLabels={GESTURE_LABELS}
+            motionLabels={MOTION_LABELS}
+            onChange={handleBindingsChange}
+            onClose={() => setShowBindings(false)}
+          />
+        )}
+
+        {/* EFFECTS */}
+        {showEffects && (
+          <EffectsPanel
+            settings={effects}
+            activeTier={qualityTier}
+            onChange={handleEffectsChange}
+            onClose={() => setShowEffects(false)}
+          />
+        )}
+
         {/* HELP MODAL */}
         {showHelpModal && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/90 backdrop-blur-md pointer-events-auto z-50 animate-fade-in p-4">
@@ -640,6 +1155,54 @@ export default function App() {
                       </div>
                     </div>
 
+                    <div className="flex items-start gap-3 bg-white/5 p-4 rounded-xl">
+                      <Hand className="w-5 h-5 text-blue-400 mt-1 shrink-0" />
+                      <div>
+                        <h4 className="font-bold text-blue-300">Hai tay / Hai người</h4>
+                        <p className="text-gray-400 text-sm">Mở cả hai bàn tay rồi kéo ra xa để phóng to quả cầu. Hai người cùng giơ tay thì quà được chia đều cho mỗi người.</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3 bg-white/5 p-4 rounded-xl">
+                      <Sparkles className="w-5 h-5 text-pink-400 mt-1 shrink-0" />
+                      <div>
+                        <h4 className="font-bold text-pink-300">Vuốt & Vẫy tay</h4>
+                        <p className="text-gray-400 text-sm">Vuốt tay sang trái / phải để đổi lời chúc hoặc xem lại các món quà đã mở. Vẫy tay để Ông già Noel vẫy lại bạn!</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3 bg-white/5 p-4 rounded-xl">
+                      <Sparkles className="w-5 h-5 text-yellow-400 mt-1 shrink-0" />
+                      <div>
+                        <h4 className="font-bold text-yellow-300">Đũa thần ☝️</h4>
+                        <p className="text-gray-400 text-sm">Chỉ ngón trỏ để vẽ vệt sáng lấp lánh trước cây thông. Chụm ngón cái và ngón trỏ 🤏 để vệt sáng bung thành pháo hoa.</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3 bg-white/5 p-4 rounded-xl">
+                      <Magnet className="w-5 h-5 text-cyan-400 mt-1 shrink-0" />
+                      <div>
+                        <h4 className="font-bold text-cyan-300">Lực bàn tay</h4>
+                        <p className="text-gray-400 text-sm">Đưa tay lại gần để đẩy tuyết và đèn cây thông ra xa, hạ tay xuống là chúng trở về chỗ cũ. Chỉnh cường độ và bán kính trong nút <Magnet className="w-4 h-4 inline mx-1" />.</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3 bg-white/5 p-4 rounded-xl">
+                      <Smile className="w-5 h-5 text-green-400 mt-1 shrink-0" />
+                      <div>
+                        <h4 className="font-bold text-green-300">Cửa sổ 3D & Nụ cười</h4>
+                        <p className="text-gray-400 text-sm">Bật "Nhìn theo đầu" trong nút <Magnet className="w-4 h-4 inline mx-1" />: di chuyển đầu sang hai bên để nhìn cây thông như qua một khung cửa sổ. Mỉm cười thật tươi để bắn pháo giấy!</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3 bg-white/5 p-4 rounded-xl">
+                      <MousePointer2 className="w-5 h-5 text-purple-400 mt-1 shrink-0" />
+                      <div>
+                        <h4 className="font-bold text-purple-300">Không có camera?</h4>
+                        <p className="text-gray-400 text-sm">Chọn cách điều khiển ở góc phải: chạm nhanh để mở quà, giữ để về cây thông, hoặc dùng phím P / F.</p>
+                      </div>
+                    </div>
+
                     <div className="flex items-start gap-3 bg-white/5 p-4 rounded-xl">
                       <Volume2 className="w-5 h-5 text-green-400 mt-1 shrink-0" />
                       <div>
@@ -669,7 +1232,7 @@ export default function App() {
                         <div className="w-8 h-8 rounded-full bg-red-500/20 text-red-500 flex items-center justify-center font-bold border border-red-500/50 shrink-0">2</div>
                         <div>
                           <h4 className="font-bold text-white">Thêm lời chúc & Quà</h4>
-                          <p className="text-gray-400 text-sm">Nhấn nút <GiftIcon className="w-4 h-4 inline mx-1" /> để mở hộp thoại thêm quà. Viết lời chúc và chọn Sticker ngẫu nhiên.</p>
+                          <p className="text-gray-400 text-sm">Nhấn nút <GiftIcon className="w-4 h-4 inline mx-1" /> để mở hộp thoại thêm quà. Viết lời chúc và chọn Sticker ngẫu nhiên. Có thể bấm "Viết trên không" rồi chụm 🤏 tay để vẽ lời nhắn.</p>
                         </div>
                       </div>
 
@@ -760,6 +1323,20 @@ export default function App() {
                       <Plus className="w-5 h-5" />
                     </button>
                   </div>
+
+                  <div className="flex items-center gap-2 mt-3">
+                    <button
+                      onClick={() => setShowAirDrawing(true)}
+                      className="flex-1 bg-black/30 hover:bg-white/10 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-200 flex items-center justify-center gap-2"
+                    >
+                      <PenLine className="w-4 h-4" /> {giftInputDrawing ? 'Vẽ lại trên không' : 'Viết trên không (tùy chọn)'}
+                    </button>
+                    {giftInputDrawing && (
+                      <button onClick={() => setGiftInputDrawing(null)} className="text-gray-500 hover:text-red-400" title="Bỏ hình vẽ">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
                 </div>
 
                 {/* List Area */}
@@ -773,7 +1350,7 @@ export default function App() {
                           <span className="text-2xl">{gift.sticker}</span>
                           <div>
                             <p className="text-xs text-red-300 font-bold">Hộp quà {idx + 1}</p>
-                            <p className="text-sm text-gray-200">{gift.message}</p>
+                            <p className="text-sm text-gray-200">{gift.message}{gift.drawing && <span className="ml-1" title="Có hình viết trên không">✍️</span>}</p>
                           </div>
                         </div>
                         <button onClick={() => removeGift(gift.id)} className="text-gray-500 hover:text-red-400">
@@ -797,6 +1374,16 @@ export default function App() {
           </div>
         )}
 
+        {/* AIR WRITING (opened from the gift builder) */}
+        {showAirDrawing && (
+          <AirDrawingPad
+            vision={visionState}
+            cameraReady={inputKind === 'camera' && visionLoad?.stage === 'ready'}
+            onSave={(drawing) => { setGiftInputDrawing(drawing); setShowAirDrawing(false); }}
+            onCancel={() => setShowAirDrawing(false)}
+          />
+        )}
+
         {/* QR Code Modal */}
         {showQRModal && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-md pointer-events-auto z-50 animate-fade-in">
@@ -0,0 +1,6 @@
+import { readFileSync } from 'node:fs';
+import { LandmarkRecording, parseRecording } from '../services/landmarkRecorder';
+
+// Landmark recordings in the format the in-app recorder downloads (src/__fixtures__/landmarks)
+export const loadRecording = (name: string): LandmarkRecording =>
+  parseRecording(readFileSync(new URL(`./landmarks/${name}.json`, import.meta.url), 'utf8'));
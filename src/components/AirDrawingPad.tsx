@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PenLine, Undo2, Trash2, X, Check } from 'lucide-react';
+import { VisionResult } from '../types';
+import { MAX_DRAWING_POINTS, Stroke, encodeDrawing, normalizeDrawing, simplifyStroke } from '../utils/airWriting';
+
+interface Props {
+  vision: VisionResult;
+  cameraReady: boolean;
+  onSave: (drawing: string) => void;
+  onCancel: () => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 240;
+
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+
+// Ignore jitter smaller than this (fraction of the frame)
+const MIN_STEP = 0.004;
+
+// Pinch and move to draw; releasing the pinch ends the stroke
+const AirDrawingPad: React.FC<Props> = ({ vision, cameraReady, onSave, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const currentRef = useRef<Stroke | null>(null);
+  const cursorRef = useRef<[number, number] | null>(null);
+
+  const pointCount = strokes.reduce((sum, s) => sum + s.length, 0);
+
+  // --- CAPTURE ---
+  useEffect(() => {
+    const hand = vision.hands[0];
+    if (!hand || hand.landmarks.length <= INDEX_TIP) {
+      cursorRef.current = null;
+    } else {
+      // Pen sits between thumb and index tips, mirrored so it moves with the hand
+      const thumb = hand.landmarks[THUMB_TIP];
+      const index = hand.landmarks[INDEX_TIP];
+      cursorRef.current = [1 - (thumb.x + index.x) / 2, (thumb.y + index.y) / 2];
+    }
+
+    const cursor = cursorRef.current;
+    const current = currentRef.current;
+    // The stroke being drawn counts too: running out of points ends it
+    const hasRoom = pointCount + (current?.length ?? 0) < MAX_DRAWING_POINTS;
+    if (cursor && hand?.gesture === 'Pinch' && hasRoom) {
+      if (!current) {
+        currentRef.current = [cursor];
+      } else {
+        const [lx, ly] = current[current.length - 1];
+        if (Math.hypot(cursor[0] - lx, cursor[1] - ly) >= MIN_STEP) current.push(cursor);
+      }
+    } else if (current) {
+      // Stroke finished: simplify it right away, still within the point budget
+      const finished = simplifyStroke(current).slice(0, MAX_DRAWING_POINTS - pointCount);
+      currentRef.current = null;
+      if (finished.length > 1) setStrokes(prev => [...prev, finished]);
+    }
+  }, [vision]);
+
+  // --- DRAW ---
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = '#fde047';
+    ctx.shadowColor = '#facc15';
+    ctx.shadowBlur = 10;
+
+    const all = currentRef.current ? [...strokes, currentRef.current] : strokes;
+    all.forEach(stroke => {
+      ctx.beginPath();
+      stroke.forEach(([x, y], i) => {
+        if (i === 0) ctx.moveTo(x * WIDTH, y * HEIGHT);
+        else ctx.lineTo(x * WIDTH, y * HEIGHT);
+      });
+      ctx.stroke();
+    });
+
+    const cursor = cursorRef.current;
+    if (cursor) {
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = currentRef.current ? '#fde047' : 'rgba(255,255,255,0.6)';
+      ctx.beginPath();
+      ctx.arc(cursor[0] * WIDTH, cursor[1] * HEIGHT, 5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  });
+
+  const handleSave = () => {
+    onSave(encodeDrawing(normalizeDrawing(strokes)));
+  };
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto z-50 animate-fade-in p-4">
+      <div className="relative bg-gray-900/95 rounded-2xl border border-yellow-500/30 shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-white/5">
+          <h2 className="text-lg font-bold text-yellow-400 flex items-center gap-2">
+            <PenLine className="w-5 h-5" /> Viết trên không
+          </h2>
+          <button onClick={onCancel} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-3 text-sm">
+          <p className="text-gray-300">
+            {cameraReady ? 'Chụm ngón cái và ngón trỏ 🤏 rồi di chuyển để viết, thả ra để ngắt nét.' : 'Hãy bật camera để viết trên không.'}
+          </p>
+          <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="block bg-black/60 rounded-lg border border-white/10" />
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{strokes.length} nét</span>
+            {pointCount >= MAX_DRAWING_POINTS && <span className="text-orange-300">Đã đủ độ dài tối đa</span>}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setStrokes(strokes.slice(0, -1))}
+              disabled={strokes.length === 0}
+              className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-40"
+              title="Hoàn tác nét cuối"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setStrokes([])}
+              disabled={strokes.length === 0}
+              className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-40"
+              title="Xóa hết"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={strokes.length === 0}
+              className="flex-1 py-2 bg-yellow-500 hover:bg-yellow-400 text-black font-bold rounded-lg transition-colors disabled:opacity-40 flex items-center justify-center gap-1"
+            >
+              <Check className="w-4 h-4" /> Dùng hình vẽ
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AirDrawingPad;
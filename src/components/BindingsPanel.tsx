@@ -0,0 +1,102 @@
+import React from 'react';
+import { Gamepad2, RotateCcw, X } from 'lucide-react';
+import { Gesture, MotionGesture } from '../types';
+import { FORMATIONS, FormationId } from '../utils/geometry';
+import {
+  BINDING_ACTIONS,
+  BindingAction,
+  BindingTrigger,
+  DEFAULT_BINDINGS,
+  GestureBindings,
+  MOTION_GESTURES,
+  STATIC_GESTURES,
+  actionFor,
+  sameBindings,
+} from '../services/gestureBindings';
+
+interface Props {
+  bindings: GestureBindings;
+  gestureLabels: Record<Gesture, string>;
+  motionLabels: Record<MotionGesture, string>;
+  onChange: (bindings: GestureBindings) => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<BindingAction, string> = {
+  none: '—',
+  show_tree: 'Về cây thông (đóng quà)',
+  show_sphere: 'Chuyển sang cầu tuyết',
+  open_gift: 'Mở quà tiếp theo',
+  close_gift: 'Đóng hộp quà',
+  next_item: 'Lời chúc / quà kế tiếp',
+  prev_item: 'Lời chúc / quà trước',
+  toggle_music: 'Bật / tắt nhạc',
+  snapshot: 'Chụp ảnh màn hình',
+  cycle_theme: 'Đổi màu chủ đề',
+  next_formation: 'Đổi hình dạng kế tiếp',
+  ...Object.fromEntries(FORMATIONS.map(f => [`formation:${f.id}`, `Hình: ${f.label}`])) as Record<`formation:${FormationId}`, string>,
+};
+
+const GROUPS: { title: string, triggers: BindingTrigger[] }[] = [
+  { title: 'Cử chỉ', triggers: STATIC_GESTURES },
+  { title: 'Giữ lâu (1.5 giây)', triggers: STATIC_GESTURES.map(g => `${g}:hold` as const) },
+  { title: 'Chuyển động', triggers: MOTION_GESTURES },
+];
+
+const BindingsPanel: React.FC<Props> = ({ bindings, gestureLabels, motionLabels, onChange, onClose }) => {
+  const labelFor = (trigger: BindingTrigger): string => {
+    const [gesture, hold] = trigger.split(':');
+    if (hold) return gestureLabels[gesture as Gesture];
+    return gesture in motionLabels ? motionLabels[gesture as MotionGesture] : gestureLabels[gesture as Gesture];
+  };
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm pointer-events-auto z-50 animate-fade-in p-4">
+      <div className="relative max-w-md w-full bg-gray-900/95 rounded-2xl border border-white/10 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-white/5">
+          <h2 className="text-lg font-bold text-yellow-400 flex items-center gap-2">
+            <Gamepad2 className="w-5 h-5" /> Gán cử chỉ
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex flex-col gap-4 text-sm">
+          {GROUPS.map(group => (
+            <div key={group.title} className="flex flex-col gap-1.5">
+              <h3 className="text-xs uppercase tracking-wider text-gray-500">{group.title}</h3>
+              {group.triggers.map(trigger => (
+                <label key={trigger} className="flex items-center justify-between gap-3">
+                  <span className="text-gray-300">{labelFor(trigger)}</span>
+                  <select
+                    value={actionFor(bindings, trigger)}
+                    onChange={(e) => onChange({ ...bindings, [trigger]: e.target.value as BindingAction })}
+                    className="w-52 bg-black/40 border border-white/20 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-yellow-400"
+                  >
+                    {BINDING_ACTIONS.map(action => (
+                      <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-white/10 flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500">Cách gán được gửi kèm trong link thiệp.</p>
+          <button
+            onClick={() => onChange(DEFAULT_BINDINGS)}
+            disabled={sameBindings(bindings, DEFAULT_BINDINGS)}
+            className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg transition-colors flex items-center gap-1 text-sm disabled:opacity-40"
+          >
+            <RotateCcw className="w-4 h-4" /> Mặc định
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BindingsPanel;
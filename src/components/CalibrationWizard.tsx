@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, X, RotateCcw } from 'lucide-react';
+import { CalibrationCollector, CalibrationProfile } from '../services/calibration';
+import { DEFAULT_GESTURE_THRESHOLDS, GestureThresholds, HandRatios, deriveThresholds } from '../utils/gestures';
+
+interface Props {
+  profile: CalibrationProfile | null;
+  cameraReady: boolean;
+  onSave: (thresholds: GestureThresholds) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+type Step = 'intro' | 'open' | 'fist' | 'done';
+
+// Time to get into the pose before sampling starts
+const POSE_DELAY_MS = 1500;
+
+const STEP_PROMPTS: Record<'open' | 'fist', { icon: string, text: string }> = {
+  open: { icon: '✋', text: 'Giơ bàn tay MỞ, xòe rộng các ngón' },
+  fist: { icon: '✊', text: 'Bây giờ NẮM tay lại' },
+};
+
+const FINGER_LABELS = ['Trỏ', 'Giữa', 'Áp út', 'Út'];
+
+const CalibrationWizard: React.FC<Props> = ({ profile, cameraReady, onSave, onReset, onClose }) => {
+  const [step, setStep] = useState<Step>('intro');
+  const [progress, setProgress] = useState(0);
+  const [sampling, setSampling] = useState(false);
+  const collectorRef = useRef(new CalibrationCollector());
+  const openSamplesRef = useRef<HandRatios[]>([]);
+
+  // --- Sampling per pose ---
+  useEffect(() => {
+    if (step !== 'open' && step !== 'fist') return;
+    setProgress(0);
+    setSampling(false);
+    const collector = collectorRef.current;
+    const timer = setTimeout(() => {
+      setSampling(true);
+      collector.start(setProgress, (samples) => {
+        if (step === 'open') {
+          openSamplesRef.current = samples;
+          setStep('fist');
+        } else {
+          onSave(deriveThresholds(openSamplesRef.current, samples));
+          setStep('done');
+        }
+      });
+    }, POSE_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      collector.stop();
+    };
+  }, [step]);
+
+  const thresholds = profile?.thresholds ?? DEFAULT_GESTURE_THRESHOLDS;
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm pointer-events-auto z-50 animate-fade-in p-4">
+      <div className="relative max-w-sm w-full bg-gray-900/95 rounded-2xl border border-white/10 shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-white/5">
+          <h2 className="text-lg font-bold text-yellow-400 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" /> Hiệu chỉnh cử chỉ
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-4 text-sm text-gray-300">
+          {step === 'intro' && (
+            <>
+              <p>Giúp nhận diện nắm tay chính xác hơn với bàn tay của bạn (tay trẻ em, đeo găng, ngồi xa camera...).</p>
+              <p className="text-gray-400">Giữ tay trước camera: đầu tiên mở tay, sau đó nắm tay, mỗi tư thế khoảng 2 giây.</p>
+              {!cameraReady && <p className="text-orange-300">Hãy bật camera trước khi hiệu chỉnh.</p>}
+              <p className="text-xs text-gray-500">
+                {profile ? `Đã hiệu chỉnh lúc ${new Date(profile.calibratedAt).toLocaleString('vi-VN')}` : 'Đang dùng ngưỡng mặc định.'}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setStep('open')}
+                  disabled={!cameraReady}
+                  className="flex-1 py-2 bg-yellow-500 hover:bg-yellow-400 text-black font-bold rounded-lg transition-colors disabled:opacity-40"
+                >
+                  {profile ? 'Hiệu chỉnh lại' : 'Bắt đầu'}
+                </button>
+                {profile && (
+                  <button
+                    onClick={onReset}
+                    className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors flex items-center gap-1"
+                    title="Dùng lại ngưỡng mặc định"
+                  >
+                    <RotateCcw className="w-4 h-4" /> Mặc định
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+
+          {(step === 'open' || step === 'fist') && (
+            <div className="flex flex-col items-center gap-3 py-2">
+              <div className="text-6xl">{STEP_PROMPTS[step].icon}</div>
+              <p className="font-bold text-white text-center">{STEP_PROMPTS[step].text}</p>
+              <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-yellow-400 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <p className="text-xs text-gray-500">{sampling ? 'Giữ yên tay...' : 'Chuẩn bị...'}</p>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <>
+              <p className="text-green-300 font-bold">Đã lưu ngưỡng cá nhân của bạn!</p>
+              <div className="grid grid-cols-5 gap-1 text-center text-xs">
+                {FINGER_LABELS.map((label, i) => (
+                  <div key={label} className="bg-white/5 rounded p-1">
+                    <div className="text-gray-500">{label}</div>
+                    <div>{thresholds.curlRatios[i].toFixed(2)}</div>
+                  </div>
+                ))}
+                <div className="bg-white/5 rounded p-1">
+                  <div className="text-gray-500">Cái</div>
+                  <div>{thresholds.thumbOutRatio.toFixed(2)}</div>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => setStep('open')} className="flex-1 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors">
+                  Làm lại
+                </button>
+                <button onClick={onClose} className="flex-1 py-2 bg-yellow-500 hover:bg-yellow-400 text-black font-bold rounded-lg transition-colors">
+                  Xong
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Grip } from 'lucide-react';
+import { FingerStates, Gesture, HandSlot, VisionResult } from '../types';
+import { FINGER_LANDMARKS, PALM_CONNECTIONS } from '../utils/gestures';
+
+interface Props {
+  video: HTMLVideoElement;
+  mirror: boolean;
+  vision: VisionResult;
+  gestureLabels: Record<Gesture, string>;
+  onClose: () => void;
+}
+
+const WIDTH = 240;
+const HEIGHT = 180;
+
+const SLOT_COLORS: Record<HandSlot, string> = { 0: '#facc15', 1: '#67e8f9' };
+const CURLED_COLOR = '#f87171';
+
+const FINGER_NAMES: Record<keyof FingerStates, string> = {
+  thumb: 'Cái',
+  index: 'Trỏ',
+  middle: 'Giữa',
+  ring: 'Áp út',
+  pinky: 'Út',
+};
+
+// Picture-in-picture camera feed with the tracked hand skeleton drawn on top
+const CameraPreview: React.FC<Props> = ({ video, mirror, vision, gestureLabels, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const visionRef = useRef(vision);
+  const [position, setPosition] = useState({ x: 24, y: 24 }); // From bottom-left
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; originX: number; originY: number } | null>(null);
+
+  useEffect(() => {
+    visionRef.current = vision;
+  }, [vision]);
+
+  // --- DRAW LOOP ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frameId = 0;
+    const draw = () => {
+      frameId = requestAnimationFrame(draw);
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+      // Mirrored, the preview moves like a mirror (hand right = skeleton right)
+      ctx.save();
+      if (mirror) {
+        ctx.translate(WIDTH, 0);
+        ctx.scale(-1, 1);
+      }
+      if (video.readyState >= 2) {
+        ctx.drawImage(video, 0, 0, WIDTH, HEIGHT);
+      }
+
+      visionRef.current.hands.forEach(hand => {
+        const points = hand.landmarks;
+        if (points.length < 21) return;
+        const at = (i: number) => [points[i].x * WIDTH, points[i].y * HEIGHT] as const;
+        const color = SLOT_COLORS[hand.slot];
+
+        const line = (a: number, b: number, stroke: string) => {
+          ctx.strokeStyle = stroke;
+          ctx.beginPath();
+          ctx.moveTo(...at(a));
+          ctx.lineTo(...at(b));
+          ctx.stroke();
+        };
+
+        ctx.lineWidth = 2;
+        PALM_CONNECTIONS.forEach(([a, b]) => line(a, b, color));
+        (Object.keys(FINGER_LANDMARKS) as (keyof FingerStates)[]).forEach(finger => {
+          const chain = FINGER_LANDMARKS[finger];
+          const curled = !hand.fingers[finger];
+          for (let i = 1; i < chain.length; i++) line(chain[i - 1], chain[i], curled ? CURLED_COLOR : color);
+        });
+
+        ctx.fillStyle = 'white';
+        points.forEach((_, i) => {
+          const [x, y] = at(i);
+          ctx.beginPath();
+          ctx.arc(x, y, 2, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      });
+      ctx.restore();
+    };
+    draw();
+
+    return () => cancelAnimationFrame(frameId);
+  }, [video, mirror]);
+
+  // --- DRAGGING ---
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, originX: position.x, originY: position.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    // Keep at least part of the window on screen
+    setPosition({
+      x: Math.min(Math.max(0, drag.originX + e.clientX - drag.startX), window.innerWidth - 80),
+      y: Math.min(Math.max(0, drag.originY - (e.clientY - drag.startY)), window.innerHeight - 40),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragRef.current?.pointerId === e.pointerId) dragRef.current = null;
+  };
+
+  return (
+    <div
+      className="absolute z-30 pointer-events-auto rounded-xl overflow-hidden border border-white/20 bg-black/60 backdrop-blur-md shadow-2xl select-none"
+      style={{ left: position.x, bottom: position.y, width: WIDTH }}
+    >
+      <div
+        className="flex items-center justify-between px-2 py-1 text-xs text-gray-300 cursor-move touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <span className="flex items-center gap-1"><Grip className="w-3 h-3" /> Camera</span>
+        <button
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={onClose}
+          className="p-0.5 rounded hover:bg-white/10 hover:text-white"
+          title="Ẩn camera"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="block bg-black" />
+
+      <div className="px-2 py-1.5 flex flex-col gap-1 text-xs">
+        {vision.hands.length === 0 && <span className="text-gray-500">Không thấy tay</span>}
+        {vision.hands.map(hand => (
+          <div key={hand.slot} className="flex flex-wrap items-center gap-x-2">
+            <span className="font-bold" style={{ color: SLOT_COLORS[hand.slot] }}>
+              {gestureLabels[hand.gesture]}
+            </span>
+            <span className="text-gray-400">{Math.round(hand.confidence * 100)}%</span>
+            <span className="text-red-300">
+              {(Object.keys(FINGER_NAMES) as (keyof FingerStates)[])
+                .filter(finger => !hand.fingers[finger])
+                .map(finger => FINGER_NAMES[finger])
+                .join(', ') || 'Không ngón nào co'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CameraPreview;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, X } from 'lucide-react';
+import { CameraSettings, FRAME_RATE_OPTIONS, RESOLUTION_OPTIONS, listVideoDevices } from '../services/cameraSettings';
+
+interface Props {
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+  onClose: () => void;
+}
+
+const selectClass = "w-full bg-black/40 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-yellow-400";
+
+const CameraSettingsPanel: React.FC<Props> = ({ settings, onChange, onClose }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Keep the list current while cameras are plugged in / out
+  useEffect(() => {
+    const refresh = () => {
+      listVideoDevices().then(setDevices).catch((e) => console.warn("Could not list cameras", e));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const resolution = RESOLUTION_OPTIONS.findIndex(r => r.width === settings.width && r.height === settings.height);
+  const missingDevice = settings.deviceId !== null && devices.length > 0 && !devices.some(d => d.deviceId === settings.deviceId);
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm pointer-events-auto z-50 animate-fade-in p-4">
+      <div className="relative max-w-sm w-full bg-gray-900/95 rounded-2xl border border-white/10 shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-white/5">
+          <h2 className="text-lg font-bold text-yellow-400 flex items-center gap-2">
+            <Settings className="w-5 h-5" /> Cài đặt camera
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">Thiết bị</span>
+            <select
+              value={settings.deviceId ?? ''}
+              onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+              className={selectClass}
+            >
+              <option value="">Mặc định</option>
+              {devices.map((device, i) => (
+                <option key={device.deviceId || i} value={device.deviceId}>
+                  {device.label || `Camera ${i + 1}`}
+                </option>
+              ))}
+              {missingDevice && <option value={settings.deviceId!}>Camera đã chọn (không kết nối)</option>}
+            </select>
+            {missingDevice && (
+              <span className="text-xs text-orange-300">Không thấy camera đã chọn, đang dùng camera mặc định.</span>
+            )}
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">Độ phân giải</span>
+              <select
+                value={resolution}
+                onChange={(e) => {
+                  const { width, height } = RESOLUTION_OPTIONS[Number(e.target.value)];
+                  onChange({ ...settings, width, height });
+                }}
+                className={selectClass}
+              >
+                {resolution < 0 && <option value={-1}>{settings.width}×{settings.height}</option>}
+                {RESOLUTION_OPTIONS.map((option, i) => (
+                  <option key={option.label} value={i}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">Khung hình</span>
+              <select
+                value={settings.frameRate}
+                onChange={(e) => onChange({ ...settings, frameRate: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {FRAME_RATE_OPTIONS.map(fps => (
+                  <option key={fps} value={fps}>{fps} fps</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.mirror}
+              onChange={(e) => onChange({ ...settings, mirror: e.target.checked })}
+              className="accent-yellow-400"
+            />
+            <span className="text-gray-300">Lật ảnh xem trước (như gương)</span>
+          </label>
+
+          <p className="text-xs text-gray-500">Độ phân giải thấp giúp máy yếu chạy mượt hơn. Cài đặt được lưu trên trình duyệt này.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraSettingsPanel;
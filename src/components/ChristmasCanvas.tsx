@@ -2,18 +2,108 @@
 import React, { useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import gsap from 'gsap';
-import { VisionService } from '../services/visionService';
-import { generateTreePositions, generateSpherePositions, createStarGeometry } from '../utils/geometry';
+import { InputProvider } from '../services/inputProviders';
+import { GestureFilter, GestureEvent } from '../services/gestureFilter';
+import { MotionDetector, MotionEvent } from '../services/motionDetector';
+import { FormationContext, FormationId, FormationPalette, createStarGeometry, getFormation } from '../utils/geometry';
+import { handSpread, isTwoPeople, palmCenter } from '../utils/gestures';
+import { HAND_CONTROL, steeringFromHand } from '../utils/handControl';
 import { VisionResult, AppMode, Gift } from '../types';
+import { SceneThemeId, getTheme } from '../utils/themes';
+import { WandTrail, createWandTrail } from '../utils/wandTrail';
+import { decodeDrawing, resampleStroke, strokeLength } from '../utils/airWriting';
+import { FORCE_FIELD, accumulateForce, createPalmField, stepPalmField } from '../utils/forceField';
+import { EffectSettings } from '../services/effectSettings';
+import { HEAD_TRACKING, applyWindowProjection } from '../utils/headTracking';
+import { createSelfieCutout } from '../utils/selfieCutout';
+import { MorphParticles, createMorphParticles } from '../utils/morphParticles';
+import { MAX_QUALITY_PROFILE, QUALITY_PROFILES, QualityTier, guessQualityTier, stepQualityTier } from '../utils/quality';
+import { FpsGovernor } from '../services/fpsGovernor';
+import { createPostProcessing, markBloom, POST_PROCESSING } from '../utils/postProcessing';
+import { createMirrorFloor } from '../utils/mirrorFloor';
 
 interface Props {
   targetMode: AppMode;
   onVisionUpdate: (result: VisionResult) => void;
+  onGestureEvent?: (event: GestureEvent) => void;
+  onMotionEvent?: (event: MotionEvent) => void;
   activeGift: Gift | null;
+  input: InputProvider;
+  theme: SceneThemeId;
+  snapshotRequest: number; // Bump to save a PNG of the next rendered frame
+  effects: EffectSettings;
+  formation: FormationId; // Shown in tree mode; sphere mode always forms the sphere
+  recipientName: string; // Spelled out by the 'name' formation
+  wish: string; // Spelled out by the 'wish' formation
+  photo: string | null; // Particle image code for the 'photo' formation
+  onQualityChange?: (tier: QualityTier) => void; // Tier in use, whether picked by the governor or the user
 }
 
 // --- HELPERS ---
 
+// The wand draws on a vertical plane between the tree and the camera
+const WAND_PLANE_Z = 6;
+const INDEX_TIP = 8;
+
+// Air-written gift drawings: dots along the strokes, revealed in drawing order
+const GIFT_DRAWING_CAPACITY = 1500;
+const GIFT_DRAWING_SPACING = 0.012; // In the drawing's unit box; long drawings space their dots wider to fit
+const GIFT_DRAWING_SIZE = 4; // World units across
+
+// Mostly the main color with a sprinkle of accent lights
+const fillParticleColors = (colors: Float32Array, palette: FormationPalette) => {
+  const mainColor = new THREE.Color(palette.main);
+  const accentColors = palette.accents.map(c => new THREE.Color(c));
+  for (let i = 0; i < colors.length / 3; i++) {
+    let color;
+    if (Math.random() < 0.7) {
+      color = mainColor.clone().offsetHSL(0, 0, (Math.random() - 0.5) * 0.1);
+    } else {
+      color = accentColors[Math.floor(Math.random() * accentColors.length)];
+    }
+    colors[i * 3] = color.r;
+    colors[i * 3 + 1] = color.g;
+    colors[i * 3 + 2] = color.b;
+  }
+};
+
+// Restart the confetti burst from just above the gift box
+const launchConfetti = (system: THREE.Points) => {
+  system.visible = true;
+  system.userData.active = true;
+  const vels = system.userData.velocities;
+  const pos = system.geometry.attributes.position.array as Float32Array;
+  for (let i = 0; i < pos.length / 3; i++) {
+    pos[i * 3] = 0; pos[i * 3 + 1] = 2; pos[i * 3 + 2] = 0;
+    vels[i * 3] = (Math.random() - 0.5) * 0.8;
+    vels[i * 3 + 1] = Math.random() * 0.8 + 0.2;
+    vels[i * 3 + 2] = (Math.random() - 0.5) * 0.8;
+  }
+};
+
+// A formation's own colors or palette, or the scene theme for the tree and sphere
+const formationColors = (id: FormationId, theme: SceneThemeId, count: number, context: FormationContext): Float32Array => {
+  const formation = getFormation(id);
+  const own = formation.colors?.(count, context);
+  if (own) return own;
+  const colors = new Float32Array(count * 3);
+  fillParticleColors(colors, formation.palette ?? getTheme(theme));
+  return colors;
+};
+
+const downloadCanvas = (canvas: HTMLCanvasElement) => {
+  canvas.toBlob((blob) => {
+    if (!blob) return;
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `giang-sinh-${new Date().toISOString().replace(/[:.]/g, '-')}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(a.href);
+  }, 'image/png');
+};
+
 const createTextTexture = (text: string, size: number = 128): THREE.CanvasTexture => {
   const canvas = document.createElement('canvas');
   canvas.width = size;
@@ -348,6 +438,7 @@ const createSantaMesh = (scale: number = 1, glowSpriteMaterial?: THREE.SpriteMat
   const rArm = new THREE.Mesh(armGeo, redMat);
   rArm.position.set(0.5 * scale, 0.75 * scale, 0);
   rArm.rotation.z = -Math.PI / 4;
+  group.userData.waveArm = rArm; // Raised to wave back at the user
 
   // Mittens
   const mittenGeo = new THREE.SphereGeometry(0.12 * scale, 8, 8);
@@ -553,6 +644,7 @@ const createDreamyTown = (): THREE.Group => {
     w2.position.set(-0.5 * scale, 0.2 * scale, 0.76 * scale);
     house.add(w1, w2);
 
+    house.userData.detail = (i * 0.618) % 1; // Lower quality tiers hide the higher values
     townGroup.add(house);
   }
 
@@ -592,6 +684,7 @@ const createDreamyTown = (): THREE.Group => {
     s3.position.y = 3.1 * scale;
 
     treeGroup.add(l1, l2, l3, s3);
+    treeGroup.userData.detail = (i * 0.618) % 1;
     townGroup.add(treeGroup);
   }
 
@@ -616,9 +709,38 @@ const createAuraTexture = (): THREE.CanvasTexture => {
   return new THREE.CanvasTexture(canvas);
 };
 
-const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGift }) => {
+const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, onGestureEvent, onMotionEvent, activeGift, input, theme, snapshotRequest, effects, formation, recipientName, wish, photo, onQualityChange }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(document.createElement("video"));
+
+  // Active input provider, swappable at runtime without rebuilding the scene
+  const inputRef = useRef(input);
+  inputRef.current = input;
+
+  // Gesture stabilization (hold time + lost-hand grace)
+  const gestureFilterRef = useRef(new GestureFilter());
+  const onGestureEventRef = useRef(onGestureEvent);
+  onGestureEventRef.current = onGestureEvent;
+
+  // Swipes, circles and waves (trajectories over time)
+  const motionDetectorRef = useRef(new MotionDetector());
+  const onMotionEventRef = useRef(onMotionEvent);
+  onMotionEventRef.current = onMotionEvent;
+  const targetModeRef = useRef(targetMode);
+  targetModeRef.current = targetMode;
+  const themeRef = useRef(theme);
+  themeRef.current = theme;
+  const effectsRef = useRef(effects);
+  effectsRef.current = effects;
+  const formationInputRef = useRef({ name: recipientName, wish, photo });
+  formationInputRef.current = { name: recipientName, wish, photo };
+  const snapshotPendingRef = useRef(false);
+  const onQualityChangeRef = useRef(onQualityChange);
+  onQualityChangeRef.current = onQualityChange;
+
+  // Quality tier: applied live by the scene setup; the governor steps it while on 'auto'
+  const qualityTierRef = useRef<QualityTier>(effects.quality === 'auto' ? guessQualityTier() : effects.quality);
+  const applyQualityRef = useRef<((tier: QualityTier) => void) | null>(null);
+  const fpsGovernorRef = useRef(new FpsGovernor());
 
   // Scene Refs
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -626,67 +748,131 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const zoomTarget = useRef(30); // Initial camera Z
   const touchDistRef = useRef<number | null>(null); // For pinch-to-zoom
+  const sceneScaleTarget = useRef(1); // Two-hand spread scaling
+  const spreadStartRef = useRef<{ spread: number, scale: number } | null>(null);
+
+  // Magic wand (fingertip trail); tip is in world space, null without a tracked hand
+  const wandRef = useRef<WandTrail | null>(null);
+  const wandTipRef = useRef<THREE.Vector3 | null>(null);
+
+  // Hand steering (smoothed inputs, accumulated yaw)
+  const steerRef = useRef({ x: 0, y: 0, yaw: 0, tilt: 0, autoBlend: 1, lastHandTime: -Infinity });
 
   // Object Refs
   const pivotRef = useRef<THREE.Group | null>(null); // Main Group
-  const reflectionPivotRef = useRef<THREE.Group | null>(null); // Mirror Group
 
   const townRef = useRef<THREE.Group | null>(null);
   const snowSystemRef = useRef<THREE.Points | null>(null);
-  const particlesRef = useRef<THREE.Points | null>(null);
 
   // Chase Group Refs
   const freeSnowmanRef = useRef<THREE.Group | null>(null);
   const corgiRef = useRef<THREE.Group | null>(null);
   const santaRef = useRef<THREE.Group | null>(null);
+  const santaWaveRef = useRef<gsap.core.Timeline | null>(null);
 
   // Star Refs
   const starGroupRef = useRef<THREE.Group | null>(null);
   const starMeshRef = useRef<THREE.Mesh | null>(null);
-  const reflectionStarGroupRef = useRef<THREE.Group | null>(null);
 
   const decorationsGroupRef = useRef<THREE.Group | null>(null);
-  const reflectionDecGroupRef = useRef<THREE.Group | null>(null);
 
   // GIFT REFS
   const giftBoxGroupRef = useRef<THREE.Group | null>(null);
   const giftBoxLidRef = useRef<THREE.Group | null>(null);
   const giftContentRef = useRef<THREE.Group | null>(null);
   const giftContentSpriteRef = useRef<THREE.Sprite | null>(null);
+  const giftDrawingRef = useRef<THREE.Points | null>(null);
   const confettiSystemRef = useRef<THREE.Points | null>(null);
 
   // Data Refs
-  const treePositionsRef = useRef<Float32Array | null>(null);
-  const spherePositionsRef = useRef<Float32Array | null>(null);
-  const morphState = useRef({ value: 0 }); // 0 = Tree, 1 = Sphere
+  // Formation morph: base positions and colors of the particles, each blending toward a target
+  const morphParticlesRef = useRef<MorphParticles | null>(null);
+  const currentFormationRef = useRef<{ id: FormationId, key: string }>({ id: 'tree', key: 'tree' });
+  const formationCacheRef = useRef(new Map<string, Float32Array>());
+
+  const formationContext = (): FormationContext => {
+    // Visible width at the default camera distance, with a margin
+    const camera = cameraRef.current;
+    const viewWidth = camera ? 2 * 30 * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2)) * camera.aspect : 30;
+    return { ...formationInputRef.current, fitWidth: Math.min(24, viewWidth * 0.8) };
+  };
+
+  // Text formations are keyed by their text too, so a new name or wish forms anew
+  const formationKey = (id: FormationId, context: FormationContext) => {
+    const { dependsOn } = getFormation(id);
+    return dependsOn ? `${id}:${dependsOn(context)}` : id;
+  };
+
+  // Generated once per formation, so morphing back and forth stays cheap
+  const formationPositions = (id: FormationId, count: number, context = formationContext()): Float32Array => {
+    const key = formationKey(id, context);
+    let positions = formationCacheRef.current.get(key);
+    if (!positions || positions.length !== count * 3) {
+      const formation = getFormation(id);
+      // Only the latest text is kept; typing a name would otherwise cache every prefix
+      if (formation.dependsOn) {
+        formationCacheRef.current.forEach((_, k) => {
+          if (k.startsWith(`${id}:`)) formationCacheRef.current.delete(k);
+        });
+      }
+      positions = formation.generate(count, context);
+      formationCacheRef.current.set(key, positions);
+    }
+    return positions;
+  };
+
+  const morphTo = (id: FormationId) => {
+    const particles = morphParticlesRef.current;
+    const context = formationContext();
+    const key = formationKey(id, context);
+    if (!particles || key === currentFormationRef.current.key) return;
+    currentFormationRef.current = { id, key };
+    particles.retargetShape(formationPositions(id, particles.count, context));
+    particles.retargetColors(formationColors(id, themeRef.current, particles.count, context));
+    const { shape, colors } = particles;
+    gsap.killTweensOf([shape.t, colors.t]);
+    gsap.to(shape.t, { value: 1, duration: 2.2, ease: "power2.inOut" });
+    gsap.to(colors.t, { value: 1, duration: 2.2, ease: "power2.inOut" });
+  };
 
   // Store active gift to detect changes
   const prevGiftRef = useRef<string | null>(null);
 
   useEffect(() => {
-    // 1. Initialize Vision
-    const initVision = async () => {
-      try {
-        const vision = VisionService.getInstance();
-        await vision.initialize();
-
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            width: { ideal: 640 },
-            height: { ideal: 480 },
-            frameRate: { ideal: 30 }
-          }
-        });
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
-        vision.start(videoRef.current);
-      } catch (e) {
-        console.error("Failed to start vision/camera", e);
+    return gestureFilterRef.current.subscribe((event) => {
+      // Pinching the wand bursts it into sparkles
+      if (event.type === 'start' && event.gesture === 'Pinch' && wandTipRef.current) {
+        wandRef.current?.burst(wandTipRef.current);
       }
-    };
-    initVision();
+      onGestureEventRef.current?.(event);
+    });
+  }, []);
 
-    // 2. Initialize Three.js
+  // Waving at the scene makes Santa wave back
+  useEffect(() => {
+    return motionDetectorRef.current.subscribe((event) => {
+      if (event.gesture === 'Wave') {
+        const arm = santaRef.current?.userData.waveArm as THREE.Object3D | undefined;
+        if (arm && !santaWaveRef.current?.isActive()) {
+          const rest = arm.rotation.z;
+          santaWaveRef.current = gsap.timeline()
+            .to(arm.rotation, { z: 2.4, duration: 0.3, ease: "power2.out" })
+            .to(arm.rotation, { z: 2.0, duration: 0.2, yoyo: true, repeat: 5, ease: "sine.inOut" })
+            .to(arm.rotation, { z: rest, duration: 0.4, ease: "power2.inOut" });
+        }
+      }
+      onMotionEventRef.current?.(event);
+    });
+  }, []);
+
+  // New provider: drop any gesture held by the previous one
+  useEffect(() => {
+    gestureFilterRef.current.reset();
+    motionDetectorRef.current.reset();
+  }, [input]);
+
+  useEffect(() => {
+    // 1. Initialize Three.js
     if (!containerRef.current) return;
 
     const width = containerRef.current.clientWidth;
@@ -702,15 +888,19 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     camera.lookAt(0, 0, 0);
     cameraRef.current = camera;
 
-    const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+    // Antialiasing can't change on a live context, so it follows the starting tier
+    const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: QUALITY_PROFILES[qualityTierRef.current].antialias });
     renderer.setSize(width, height);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    // CHANGED: Clear color to Deep Blue Night
-    renderer.setClearColor(0x0f0f2a, 1);
+    // Theme background (Deep Blue Night by default)
+    renderer.setClearColor(getTheme(themeRef.current).background, 1);
     renderer.outputColorSpace = THREE.SRGBColorSpace;
     containerRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
+    // Bloom, tone mapping and film effects; the lowest tier renders directly instead
+    const post = createPostProcessing(renderer, scene, camera, QUALITY_PROFILES[qualityTierRef.current].antialias ? 4 : 0);
+    let postEnabled = false;
+
     const spriteMaterial = new THREE.SpriteMaterial({
       map: new THREE.TextureLoader().load('https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/sprites/spark1.png'),
       color: 0xffffff,
@@ -731,40 +921,37 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     });
 
     // --- MIRROR FLOOR ---
+    // Reflects the whole scene, so anything added later shows up in it for free
     const floorY = -9;
-    const floorGeo = new THREE.PlaneGeometry(200, 200);
-    const floorMat = new THREE.MeshStandardMaterial({
-      color: 0x111122, // Darker blue reflection
-      roughness: 0.1,
-      metalness: 0.6,
-      transparent: true,
-      opacity: 0.7
-    });
-    const floor = new THREE.Mesh(floorGeo, floorMat);
-    floor.rotation.x = -Math.PI / 2;
-    floor.position.y = floorY;
-    scene.add(floor);
+    const mirrorFloor = createMirrorFloor(floorY);
+    scene.add(mirrorFloor.mesh);
 
     // --- PIVOT GROUP (Main Scene) ---
     const pivot = new THREE.Group();
     scene.add(pivot);
     pivotRef.current = pivot;
 
-    // --- REFLECTION PIVOT (Mirrored Scene) ---
-    const reflectionPivot = new THREE.Group();
-    reflectionPivot.position.y = floorY * 2;
-    reflectionPivot.scale.y = -1;
-    scene.add(reflectionPivot);
-    reflectionPivotRef.current = reflectionPivot;
-
 
     // A. Particles (Tree/Sphere)
-    const particleCount = 2500;
-    treePositionsRef.current = generateTreePositions(particleCount);
-    spherePositionsRef.current = generateSpherePositions(particleCount);
-
-    const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(treePositionsRef.current), 3));
+    // Morphing runs on the GPU, so this can go up by orders of magnitude; the quality tier
+    // sets how many (and resizes the buffers when it changes)
+    const particleCount = QUALITY_PROFILES[qualityTierRef.current].particles;
+
+    // Palm force field: the tree lights are displaced in their shader, one slot per palm,
+    // each keeping its last ray while its strength springs back to zero
+    const palmFields = [createPalmField(), createPalmField()];
+    const palmFieldRays = palmFields.map(field => field.ray);
+    const palmFieldAmounts = [0, 0];
+    const palmRaycaster = new THREE.Raycaster();
+    const palmNdc = new THREE.Vector2();
+    const palmRays: THREE.Ray[] = []; // World space
+    const localRays = [new THREE.Ray(), new THREE.Ray()];
+    const toLocal = new THREE.Matrix4();
+    // Palm rays in an object's local space (the tree spins, the snow wiggles)
+    const raysInto = (object: THREE.Object3D, rays = palmRays): THREE.Ray[] => {
+      toLocal.copy(object.matrixWorld).invert();
+      return rays.map((ray, i) => localRays[i].copy(ray).applyMatrix4(toLocal));
+    };
 
     // --- TEXTURE CREATION: CIRCULAR BULB ---
     const bulbCanvas = document.createElement('canvas');
@@ -782,47 +969,26 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     }
     const bulbTexture = new THREE.CanvasTexture(bulbCanvas);
 
-    // --- COLOR DISTRIBUTION ---
-    const colors = new Float32Array(particleCount * 3);
-    const mainColor = new THREE.Color(0x2E8B57);
-    const accentColors = [
-      new THREE.Color(0xFFD700), // Gold
-      new THREE.Color(0xE0115F), // Ruby
-      new THREE.Color(0x00FFFF), // Cyan
-      new THREE.Color(0xFFFAF0), // Warm White
-      new THREE.Color(0xFF3333), // Bright Red
-    ];
-
-    for (let i = 0; i < particleCount; i++) {
-      let color;
-      if (Math.random() < 0.7) {
-        color = mainColor.clone().offsetHSL(0, 0, (Math.random() - 0.5) * 0.1);
-      } else {
-        color = accentColors[Math.floor(Math.random() * accentColors.length)];
-      }
-      colors[i * 3] = color.r;
-      colors[i * 3 + 1] = color.g;
-      colors[i * 3 + 2] = color.b;
-    }
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.45,
-      map: bulbTexture,
-      sizeAttenuation: true,
-      vertexColors: true,
-      transparent: true,
-      opacity: 0.95,
-      blending: THREE.AdditiveBlending
-    });
-
-    const particles = new THREE.Points(geometry, material);
-    pivot.add(particles);
-    particlesRef.current = particles;
-
-    const reflectParticles = new THREE.Points(geometry, material.clone());
-    reflectParticles.material.opacity = 0.4;
-    reflectionPivot.add(reflectParticles);
+    // Always starts as the tree; the mode effect then morphs to the requested formation
+    currentFormationRef.current = { id: 'tree', key: 'tree' };
+    const morphParticles = createMorphParticles(
+      formationPositions('tree', particleCount),
+      formationColors('tree', themeRef.current, particleCount, formationContext()),
+      bulbTexture,
+      { size: 0.15, opacity: 0.95 }
+    );
+    morphParticles.setViewportHeight(renderer.getDrawingBufferSize(new THREE.Vector2()).y);
+    pivot.add(morphParticles.points);
+    morphParticlesRef.current = morphParticles;
+
+    // Magic Wand (world space, so it doesn't spin with the tree)
+    const wand = createWandTrail(bulbTexture, auraTexture);
+    scene.add(wand.group);
+    wandRef.current = wand;
+    const wandRaycaster = new THREE.Raycaster();
+    const wandPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), -WAND_PLANE_Z);
+    const wandNdc = new THREE.Vector2();
+    const wandHit = new THREE.Vector3();
 
 
     // B. 3D Star
@@ -831,11 +997,6 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     pivot.add(starGroup);
     starGroupRef.current = starGroup;
 
-    const reflectStarGroup = new THREE.Group();
-    reflectStarGroup.position.set(0, 7.8, 0);
-    reflectionPivot.add(reflectStarGroup);
-    reflectionStarGroupRef.current = reflectStarGroup;
-
     const starGeo = createStarGeometry(0.8, 2.0, 5, 0.6);
     const starMat = new THREE.MeshStandardMaterial({
       color: 0xFFD700,
@@ -848,10 +1009,6 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     starGroup.add(starMesh);
     starMeshRef.current = starMesh;
 
-    const reflectStarMesh = new THREE.Mesh(starGeo, starMat.clone());
-    reflectStarMesh.material.emissiveIntensity = 0.5;
-    reflectStarGroup.add(reflectStarMesh);
-
     const starLight = new THREE.PointLight(0xFFAA00, 3.5, 60);
     starLight.decay = 2;
     starMesh.add(starLight);
@@ -861,10 +1018,6 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     starGlowSprite.scale.set(10, 10, 1);
     starMesh.add(starGlowSprite);
 
-    const reflectGlow = starGlowSprite.clone();
-    reflectGlow.material.opacity = 0.2;
-    reflectStarMesh.add(reflectGlow);
-
 
     // C. Decorations Group
     const decGroup = new THREE.Group();
@@ -872,13 +1025,8 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     decorationsGroupRef.current = decGroup;
     decGroup.scale.set(0, 0, 0);
 
-    const reflectDecGroup = new THREE.Group();
-    reflectionPivot.add(reflectDecGroup);
-    reflectionDecGroupRef.current = reflectDecGroup;
-    reflectDecGroup.scale.set(0, 0, 0);
-
 
-    const createDecoration = (isReflection: boolean) => {
+    const createDecoration = () => {
       const type = Math.random();
       let mesh: THREE.Group | THREE.Mesh;
       let hasGlow = true;
@@ -896,13 +1044,13 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
           roughness: 0.2,
           metalness: 0.3,
           emissive: color,
-          emissiveIntensity: isReflection ? 0.3 : 0.6
+          emissiveIntensity: 0.6
         });
         mesh = new THREE.Mesh(geo, mat);
 
         const ribbonMat = new THREE.MeshStandardMaterial({
           color: 0xFFD700, metalness: 0.8, roughness: 0.2,
-          emissive: 0xCCAA00, emissiveIntensity: isReflection ? 0.15 : 0.3
+          emissive: 0xCCAA00, emissiveIntensity: 0.3
         });
         const ribbon1 = new THREE.Mesh(new THREE.TorusGeometry(0.55, 0.05, 8, 30), ribbonMat);
         const ribbon2 = new THREE.Mesh(new THREE.TorusGeometry(0.55, 0.05, 8, 30), ribbonMat);
@@ -922,7 +1070,7 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
           shininess: 200,
           specular: 0xffffff,
           emissive: color,
-          emissiveIntensity: isReflection ? 0.35 : 0.7
+          emissiveIntensity: 0.7
         });
         mesh = new THREE.Mesh(geo, mat);
       } else {
@@ -944,7 +1092,7 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
         const glow = new THREE.Sprite(spriteMaterial.clone());
         glow.material.color.setHex(glowColor);
         glow.scale.set(3, 3, 1);
-        glow.material.opacity = isReflection ? 0.2 : 0.4;
+        glow.material.opacity = 0.4;
         mesh.add(glow);
       }
 
@@ -952,10 +1100,7 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     };
 
     for (let i = 0; i < 40; i++) {
-      const dec = createDecoration(false);
-      decGroup.add(dec);
-      const reflectDec = dec.clone();
-      reflectDecGroup.add(reflectDec);
+      decGroup.add(createDecoration());
     }
 
 
@@ -1000,6 +1145,24 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     giftContent.add(stickerSprite);
     giftContentSpriteRef.current = stickerSprite;
 
+    // Air-written drawing, floating above the sticker (filled when a gift opens)
+    const giftDrawingGeo = new THREE.BufferGeometry();
+    giftDrawingGeo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(GIFT_DRAWING_CAPACITY * 3), 3));
+    giftDrawingGeo.setDrawRange(0, 0);
+    const giftDrawing = new THREE.Points(giftDrawingGeo, new THREE.PointsMaterial({
+      size: 0.25,
+      map: bulbTexture,
+      color: 0xFFD700,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending
+    }));
+    giftDrawing.position.set(0, 3.8, 0);
+    giftDrawing.frustumCulled = false;
+    giftContent.add(giftDrawing);
+    giftDrawingRef.current = giftDrawing;
+    const giftDrawingParentQuat = new THREE.Quaternion();
+
     // Confetti System
     const confettiCount = 300;
     const confettiGeo = new THREE.BufferGeometry();
@@ -1026,12 +1189,22 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     confettiSystemRef.current = confettiSystem;
     confettiSystem.userData = { velocities: confettiVel, active: false };
 
+    // Head Parallax: eye offset in camera-local units, and the shift it put on the camera
+    const headEye = new THREE.Vector2();
+    const headEyeTarget = new THREE.Vector2();
+    const headShift = new THREE.Vector3();
+    const smile = { active: false, lastBurst: -Infinity };
+
 
     // --- BACKGROUND: DREAMY TOWN ---
     const town = createDreamyTown();
     scene.add(town);
     townRef.current = town;
 
+    // Selfie Cutout: the viewer standing between the tree and the town
+    const cutout = createSelfieCutout();
+    scene.add(cutout.mesh);
+
     // --- SNOW ---
     const canvas = document.createElement('canvas');
     canvas.width = 32;
@@ -1045,7 +1218,8 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     }
     const snowTexture = new THREE.CanvasTexture(canvas);
 
-    const snowCount = 500; // Increased snow
+    const snowCount = MAX_QUALITY_PROFILE.snow;
+    let snowVisible = snowCount; // Set by the quality tier
     const snowGeo = new THREE.BufferGeometry();
     const snowPos = new Float32Array(snowCount * 3);
     const snowVelocities = new Float32Array(snowCount);
@@ -1083,34 +1257,192 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
     scene.add(backLight);
 
 
-    // 3. Animation Loop
+    // --- GLOW ---
+    // Emissive objects feed the bloom pass; their halo sprites are the fallback without it
+    [morphParticles.points, starMesh, decGroup, santa, freeSnowman, corgi, wand.group]
+      .forEach(markBloom);
+    const glowSprites: THREE.Sprite[] = [];
+    [starMesh, decGroup, santa, freeSnowman, corgi].forEach(root => root.traverse(child => {
+      if (child instanceof THREE.Sprite) glowSprites.push(child);
+    }));
+
+    // --- QUALITY TIER ---
+    // Everything here can change on a running scene. The tree lights get buffers of the tier's
+    // size (a morph in progress snaps to its target); snow is small enough to stay sized for the top tier.
+    const applyQuality = (tier: QualityTier) => {
+      const profile = QUALITY_PROFILES[tier];
+      qualityTierRef.current = tier;
+      const pixelRatio = Math.min(window.devicePixelRatio, profile.pixelRatio);
+      renderer.setPixelRatio(pixelRatio);
+      post.setPixelRatio(pixelRatio);
+      postEnabled = profile.bloom;
+      renderer.toneMapping = profile.bloom ? THREE.ACESFilmicToneMapping : THREE.NoToneMapping;
+      renderer.toneMappingExposure = POST_PROCESSING.exposure;
+      const bufferSize = renderer.getDrawingBufferSize(new THREE.Vector2());
+      morphParticles.setViewportHeight(bufferSize.y);
+      morphParticles.setSize(profile.particleSize);
+      if (profile.particles !== morphParticles.count) {
+        const { id } = currentFormationRef.current;
+        const context = formationContext();
+        morphParticles.resize(
+          formationPositions(id, profile.particles, context),
+          formationColors(id, themeRef.current, profile.particles, context)
+        );
+      }
+      snowVisible = profile.snow;
+      snowGeo.setDrawRange(0, snowVisible);
+      mirrorFloor.setEnabled(profile.reflections);
+      mirrorFloor.setResolution(bufferSize.x, bufferSize.y);
+      town.children.forEach(child => {
+        if (child.userData.detail !== undefined) child.visible = child.userData.detail < profile.townDensity;
+      });
+      glowSprites.forEach(sprite => { sprite.visible = !profile.bloom; });
+      onQualityChangeRef.current?.(tier);
+    };
+    applyQuality(qualityTierRef.current);
+    applyQualityRef.current = applyQuality;
+
+    // 2. Animation Loop
     let animationId: number;
     const clock = new THREE.Clock();
 
+    let lastTime = 0;
+
     const animate = () => {
       animationId = requestAnimationFrame(animate);
       const time = clock.getElapsedTime();
+      const dt = Math.min(time - lastTime, 0.1);
+
+      // Auto quality: step the tier when the frame rate says so
+      if (effectsRef.current.quality === 'auto') {
+        const verdict = fpsGovernorRef.current.sample((time - lastTime) * 1000);
+        if (verdict) {
+          const tier = stepQualityTier(qualityTierRef.current, verdict === 'down' ? -1 : 1);
+          if (tier !== qualityTierRef.current) applyQuality(tier);
+        }
+      }
+      lastTime = time;
 
-      // Vision Check
-      const vision = VisionService.getInstance();
-      const result = vision.detect();
+      // Input Check
+      const now = performance.now();
+      const result = gestureFilterRef.current.update(inputRef.current.poll(now), now);
       onVisionUpdate(result);
+      motionDetectorRef.current.update(result, now);
+
+      // Magic Wand: the primary index fingertip, projected in front of the tree
+      const primary = result.hands[0];
+      const wandActive = primary?.gesture === 'Pointing' || primary?.gesture === 'Pinch';
+      if (primary && primary.landmarks.length > INDEX_TIP) {
+        const tip = primary.landmarks[INDEX_TIP];
+        wandNdc.set(1 - tip.x * 2, 1 - tip.y * 2); // Mirrored like the steering
+        wandRaycaster.setFromCamera(wandNdc, camera);
+        if (wandRaycaster.ray.intersectPlane(wandPlane, wandHit)) {
+          if (wandTipRef.current) wandTipRef.current.lerp(wandHit, 0.5);
+          else wandTipRef.current = wandHit.clone();
+        }
+      } else {
+        wandTipRef.current = null;
+      }
+      wand.update(dt, primary?.gesture === 'Pointing' ? wandTipRef.current : null);
+
+      // Force Field: a ray through each tracked palm (none when no hand is present)
+      palmRays.length = 0;
+      if (effectsRef.current.forceMode !== 'off') {
+        result.hands.slice(0, localRays.length).forEach(hand => {
+          if (hand.landmarks.length === 0) return;
+          const center = palmCenter(hand.landmarks);
+          palmNdc.set(1 - center.x * 2, 1 - center.y * 2); // Mirrored like the steering
+          palmRaycaster.setFromCamera(palmNdc, camera);
+          palmRays.push(palmRaycaster.ray.clone());
+        });
+      }
 
-      // Camera Zoom Smoothing
+      // Keep the gift drawing facing the camera while the box spins with the pivot
+      giftContent.getWorldQuaternion(giftDrawingParentQuat);
+      giftDrawing.quaternion.copy(giftDrawingParentQuat.invert().multiply(camera.quaternion));
+
+      // Two-Hand Spread: one person pulling both open palms apart resizes the sphere
+      const spread = handSpread(result.hands);
+      const bothOpen = result.hands.length === 2 && result.hands.every(h => h.gesture === 'Open_Palm');
+      if (spread !== null && bothOpen && !isTwoPeople(result.hands) && targetModeRef.current === AppMode.SPHERE) {
+        if (!spreadStartRef.current) {
+          spreadStartRef.current = { spread, scale: sceneScaleTarget.current };
+        }
+        const { spread: startSpread, scale: startScale } = spreadStartRef.current;
+        sceneScaleTarget.current = Math.max(0.6, Math.min(1.8, startScale * spread / startSpread));
+      } else {
+        spreadStartRef.current = null;
+        if (targetModeRef.current === AppMode.TREE) sceneScaleTarget.current = 1;
+      }
+
+      // Hand Steering: palm position drives yaw speed and tilt, palm size drives zoom
+      const steer = steerRef.current;
+      let steerX = 0;
+      let steerY = 0;
+      // Drawing with the wand shouldn't spin the tree
+      if (primary && primary.landmarks.length > 0 && !spreadStartRef.current && !wandActive) {
+        const input = steeringFromHand(primary.landmarks);
+        steerX = input.x;
+        steerY = input.y;
+        zoomTarget.current = input.zoom;
+        steer.lastHandTime = time;
+      }
+      steer.x += (steerX - steer.x) * HAND_CONTROL.smoothing;
+      steer.y += (steerY - steer.y) * HAND_CONTROL.smoothing;
+
+      // Ease auto-rotation out while steering and back in once the hand has been gone a while
+      const handGone = (time - steer.lastHandTime) * 1000 > HAND_CONTROL.resumeAfterMs;
+      steer.autoBlend += ((handGone ? 1 : 0) - steer.autoBlend) * 0.02;
+      const flat = getFormation(currentFormationRef.current.id).flat;
+      steer.yaw += ((flat ? 0 : 0.1 * steer.autoBlend) + steer.x * HAND_CONTROL.maxYawSpeed) * dt;
+      if (flat) {
+        // Flat formations (text, heart...) ease back to facing the viewer
+        const front = Math.round(steer.yaw / (Math.PI * 2)) * Math.PI * 2;
+        steer.yaw += (front - steer.yaw) * 0.03 * steer.autoBlend;
+      }
+      steer.tilt = steer.y * HAND_CONTROL.maxTilt;
+
+      // Head Parallax: the eye follows the viewer's head while the window around the tree stays put
+      const head = effectsRef.current.headParallax ? inputRef.current.pollHead?.() ?? null : null;
+      headEyeTarget.set(head?.x ?? 0, head?.y ?? 0).multiplyScalar(HEAD_TRACKING.eyeTravel);
+      headEye.lerp(headEyeTarget, HEAD_TRACKING.smoothing);
+
+      // Camera Zoom Smoothing (on the unshifted position)
       if (cameraRef.current) {
-        cameraRef.current.position.z += (zoomTarget.current - cameraRef.current.position.z) * 0.1;
+        const cam = cameraRef.current;
+        cam.position.sub(headShift);
+        cam.position.z += (zoomTarget.current - cam.position.z) * 0.1;
+        const windowDistance = cam.position.length(); // Camera looks at the origin
+        headShift.set(headEye.x, headEye.y, 0).applyQuaternion(cam.quaternion);
+        cam.position.add(headShift);
+        applyWindowProjection(cam, headEye, windowDistance);
+      }
+
+      // Selfie Cutout (hidden unless enabled and a mask has arrived)
+      const showCutout = effectsRef.current.selfieCutout;
+      cutout.update(
+        showCutout ? inputRef.current.video ?? null : null,
+        showCutout ? inputRef.current.pollMask?.() ?? null : null
+      );
+
+      // A fresh smile sets off the confetti
+      if (head && head.smile > HEAD_TRACKING.smileOn) {
+        if (!smile.active && now - smile.lastBurst > HEAD_TRACKING.smileCooldownMs) {
+          launchConfetti(confettiSystem);
+          smile.lastBurst = now;
+        }
+        smile.active = true;
+      } else if (!head || head.smile < HEAD_TRACKING.smileOff) {
+        smile.active = false;
       }
 
-      // Auto Rotation (Main Pivot)
+      // Rotation (Main Pivot): auto + hand steering
       if (pivotRef.current) {
-        pivotRef.current.rotation.y = time * 0.1;
-        pivotRef.current.rotation.x = Math.sin(time * 0.5) * 0.03;
+        pivotRef.current.rotation.y = steer.yaw;
+        pivotRef.current.rotation.x = Math.sin(time * 0.5) * 0.03 * steer.autoBlend + steer.tilt;
 
-        // Sync Reflection Pivot
-        if (reflectionPivotRef.current) {
-          reflectionPivotRef.current.rotation.y = pivotRef.current.rotation.y;
-          reflectionPivotRef.current.rotation.x = pivotRef.current.rotation.x;
-        }
+        const scale = pivotRef.current.scale.x + (sceneScaleTarget.current - pivotRef.current.scale.x) * 0.1;
+        pivotRef.current.scale.setScalar(scale);
       }
 
       // Town Rotation (Slow drift)
@@ -1122,12 +1454,14 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
       if (snowSystemRef.current) {
         const positions = snowSystemRef.current.geometry.attributes.position.array as Float32Array;
         const velocities = snowSystemRef.current.userData.velocities as Float32Array;
-        for (let i = 0; i < snowCount; i++) {
+        for (let i = 0; i < snowVisible; i++) {
           positions[i * 3 + 1] -= velocities[i];
           if (positions[i * 3 + 1] < -40) {
             positions[i * 3 + 1] = 40;
           }
         }
+        // Flakes near a palm drift aside; they keep falling and wrap around as usual
+        accumulateForce(positions, positions, snowVisible, raysInto(snowSystemRef.current), effectsRef.current, FORCE_FIELD.snowSpeed * dt);
         snowSystemRef.current.geometry.attributes.position.needsUpdate = true;
         // Wiggle snow
         snowSystemRef.current.rotation.y = Math.sin(time * 0.1) * 0.1;
@@ -1155,34 +1489,18 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
       }
 
 
-      // Morph Logic with ORGANIC BREATHING
-      if (particlesRef.current && treePositionsRef.current && spherePositionsRef.current) {
-        const positions = particlesRef.current.geometry.attributes.position.array as Float32Array;
-        const currentMorph = morphState.current.value;
-
-        for (let i = 0; i < particleCount; i++) {
-          const i3 = i * 3;
-
-          // 1. Linear Interpolation of Base Positions
-          const targetX = treePositionsRef.current[i3] * (1 - currentMorph) + spherePositionsRef.current[i3] * currentMorph;
-          const targetY = treePositionsRef.current[i3 + 1] * (1 - currentMorph) + spherePositionsRef.current[i3 + 1] * currentMorph;
-          const targetZ = treePositionsRef.current[i3 + 2] * (1 - currentMorph) + spherePositionsRef.current[i3 + 2] * currentMorph;
-
-          // 2. Add "Breathing" / Organic Motion
-          const noiseFreq = 0.5;
-          const noiseAmp = 0.15;
-          const timeOffset = time * 1.5;
+      // Morph with organic breathing (in the shader)
+      morphParticles.update(time);
 
-          const breatheX = Math.sin(targetY * noiseFreq + timeOffset) * noiseAmp;
-          const breatheY = Math.cos(targetX * noiseFreq + timeOffset * 0.8) * noiseAmp * 0.5;
-          const breatheZ = Math.sin(targetY * noiseFreq + timeOffset * 1.2) * noiseAmp;
-
-          positions[i3] = targetX + breatheX;
-          positions[i3 + 1] = targetY + breatheY;
-          positions[i3 + 2] = targetZ + breatheZ;
-        }
-        particlesRef.current.geometry.attributes.position.needsUpdate = true;
-      }
+      // Palms scatter nearby lights, which then spring back into shape
+      const { forceMode, forceStrength, forceRadius } = effectsRef.current;
+      palmFields.forEach((field, i) => {
+        const ray = forceMode !== 'off' ? palmRays[i] : undefined;
+        if (ray) field.ray.copy(ray);
+        stepPalmField(field, ray ? forceStrength : 0, dt);
+        palmFieldAmounts[i] = field.amount;
+      });
+      morphParticles.setField(raysInto(morphParticles.points, palmFieldRays), palmFieldAmounts, forceRadius, forceMode === 'attract');
 
       // Decorations with Twinkle Effect
       if (decorationsGroupRef.current) {
@@ -1207,10 +1525,6 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
         });
       }
 
-      if (reflectionDecGroupRef.current) {
-        reflectionDecGroupRef.current.rotation.y = time * 0.08;
-      }
-
       // --- CHASE ANIMATION ---
       const orbitRadius = 13; // Increased slightly for larger Santa
       const orbitSpeed = 0.4;
@@ -1268,25 +1582,21 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
         const flicker = (Math.random() - 0.5) * 0.3;
         const totalIntensity = pulse + flicker;
         (starMeshRef.current.material as THREE.MeshStandardMaterial).emissiveIntensity = totalIntensity;
-        if (reflectionStarGroupRef.current && reflectionStarGroupRef.current.children[0]) {
-          const refMesh = reflectionStarGroupRef.current.children[0] as THREE.Mesh;
-          if (refMesh.material) {
-            (refMesh.material as THREE.MeshStandardMaterial).emissiveIntensity = totalIntensity * 0.3;
-          }
-        }
       }
 
-      if (reflectionStarGroupRef.current && starGroupRef.current) {
-        reflectionStarGroupRef.current.position.copy(starGroupRef.current.position);
-        reflectionStarGroupRef.current.rotation.copy(starGroupRef.current.rotation);
-
-        const reflectMesh = reflectionStarGroupRef.current.children[0];
-        if (reflectMesh && starMeshRef.current) {
-          reflectMesh.rotation.copy(starMeshRef.current.rotation);
-        }
+      mirrorFloor.setLook(effectsRef.current.reflectionBlur, effectsRef.current.reflectionFade);
+      if (postEnabled) {
+        post.setFilm(effectsRef.current.vignette, effectsRef.current.filmGrain);
+        post.render(time);
+      } else {
+        renderer.render(scene, camera);
       }
 
-      renderer.render(scene, camera);
+      // Read back right after rendering, before the drawing buffer is cleared
+      if (snapshotPendingRef.current) {
+        snapshotPendingRef.current = false;
+        downloadCanvas(renderer.domElement);
+      }
     };
 
     animate();
@@ -1298,6 +1608,10 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
         cameraRef.current.aspect = w / h;
         cameraRef.current.updateProjectionMatrix();
         rendererRef.current.setSize(w, h);
+        post.setSize(w, h);
+        const bufferSize = rendererRef.current.getDrawingBufferSize(new THREE.Vector2());
+        morphParticles.setViewportHeight(bufferSize.y);
+        mirrorFloor.setResolution(bufferSize.x, bufferSize.y);
       }
     };
     window.addEventListener('resize', handleResize);
@@ -1361,24 +1675,53 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
 
       cancelAnimationFrame(animationId);
       if (containerRef.current) containerRef.current.innerHTML = '';
-      if (videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-      }
+
+      // Free GPU memory: the parts with their own targets and textures, then everything else in the scene
+      post.dispose();
+      mirrorFloor.dispose();
+      cutout.dispose();
+      wand.dispose();
+      morphParticles.dispose();
+      scene.traverse(object => {
+        if (!(object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Sprite)) return;
+        if (!(object instanceof THREE.Sprite)) object.geometry.dispose(); // Sprites share one built-in quad
+        (Array.isArray(object.material) ? object.material : [object.material]).forEach((material: THREE.Material) => {
+          (material as THREE.Material & { map?: THREE.Texture | null }).map?.dispose();
+          material.dispose();
+        });
+      });
+      bulbTexture.dispose();
+      auraTexture.dispose();
+      renderer.dispose();
     };
   }, [onVisionUpdate]);
 
+  // Recolor particles (tree and sphere follow the theme) and the background
+  useEffect(() => {
+    const particles = morphParticlesRef.current;
+    if (!particles) return;
+    particles.retargetColors(formationColors(currentFormationRef.current.id, theme, particles.count, formationContext()));
+    gsap.killTweensOf(particles.colors.t);
+    gsap.to(particles.colors.t, { value: 1, duration: 1, ease: "power1.inOut" });
+    rendererRef.current?.setClearColor(getTheme(theme).background, 1);
+  }, [theme]);
+
+  useEffect(() => {
+    if (snapshotRequest > 0) snapshotPendingRef.current = true;
+  }, [snapshotRequest]);
+
   // Handle Mode Changes via GSAP
   useEffect(() => {
     // TREE MODE
     if (targetMode === AppMode.TREE) {
-      gsap.to(morphState.current, { value: 0, duration: 2.2, ease: "power2.inOut" });
+      morphTo(formation);
 
-      // Smooth Star Transition to Top
+      // Smooth Star Transition to Top (or away, for formations without one)
+      const { starY } = getFormation(formation);
       if (starGroupRef.current) {
         gsap.to(starGroupRef.current.position, {
           x: 0,
-          y: 7.8,
+          y: starY ?? 7.8,
           z: 0,
           duration: 2.2,
           ease: "power3.inOut"
@@ -1388,17 +1731,20 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
           duration: 2.2,
           ease: "power2.inOut"
         });
-        gsap.fromTo(starGroupRef.current.scale,
-          { x: 1, y: 1, z: 1 },
-          { x: 1.3, y: 1.3, z: 1.3, duration: 0.8, yoyo: true, repeat: 1, ease: "sine.inOut" }
-        );
+        if (starY === null) {
+          gsap.to(starGroupRef.current.scale, { x: 0, y: 0, z: 0, duration: 1, ease: "power2.in" });
+        } else if (starGroupRef.current.scale.x < 0.5) {
+          gsap.to(starGroupRef.current.scale, { x: 1, y: 1, z: 1, duration: 1.2, delay: 1, ease: "back.out(1.7)" });
+        } else {
+          gsap.fromTo(starGroupRef.current.scale,
+            { x: 1, y: 1, z: 1 },
+            { x: 1.3, y: 1.3, z: 1.3, duration: 0.8, yoyo: true, repeat: 1, ease: "sine.inOut" }
+          );
+        }
       }
       if (decorationsGroupRef.current) {
         gsap.to(decorationsGroupRef.current.scale, { x: 0, y: 0, z: 0, duration: 1, ease: "power2.in" });
       }
-      if (reflectionDecGroupRef.current) {
-        gsap.to(reflectionDecGroupRef.current.scale, { x: 0, y: 0, z: 0, duration: 1, ease: "power2.in" });
-      }
 
       // Close Gift
       if (giftBoxGroupRef.current) {
@@ -1410,7 +1756,7 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
 
       // SPHERE MODE
     } else {
-      gsap.to(morphState.current, { value: 1, duration: 2.2, ease: "power2.inOut" });
+      morphTo('sphere');
       if (starGroupRef.current) {
         gsap.to(starGroupRef.current.position, {
           x: 0,
@@ -1435,16 +1781,23 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
         if (decorationsGroupRef.current) {
           gsap.to(decorationsGroupRef.current.scale, { x: 1, y: 1, z: 1, duration: 1.5, delay: 0.5, ease: "elastic.out(1, 0.75)" });
         }
-        if (reflectionDecGroupRef.current) {
-          gsap.to(reflectionDecGroupRef.current.scale, { x: 1, y: 1, z: 1, duration: 1.5, delay: 0.5, ease: "elastic.out(1, 0.75)" });
-        }
       } else {
         // If gift active, ensure decorations are hidden
         if (decorationsGroupRef.current) gsap.to(decorationsGroupRef.current.scale, { x: 0, y: 0, z: 0 });
-        if (reflectionDecGroupRef.current) gsap.to(reflectionDecGroupRef.current.scale, { x: 0, y: 0, z: 0 });
       }
     }
-  }, [targetMode, activeGift]);
+  }, [targetMode, activeGift, formation]);
+
+  // A new name, wish or photo re-forms in place (other formations ignore it)
+  useEffect(() => {
+    if (targetMode === AppMode.TREE) morphTo(formation);
+  }, [recipientName, wish, photo]);
+
+  // Manual tier, or hand control back to the governor
+  useEffect(() => {
+    if (effects.quality === 'auto') fpsGovernorRef.current.reset();
+    else if (effects.quality !== qualityTierRef.current) applyQualityRef.current?.(effects.quality);
+  }, [effects.quality]);
 
   // Handle Gift Activation Change
   useEffect(() => {
@@ -1455,6 +1808,35 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
         giftContentSpriteRef.current.material.map = createTextTexture(activeGift.sticker);
       }
 
+      // Replay the air-written strokes as a light drawing once the lid is open
+      if (giftDrawingRef.current) {
+        const geometry = giftDrawingRef.current.geometry;
+        const positions = geometry.attributes.position.array as Float32Array;
+        const strokes = activeGift.drawing ? decodeDrawing(activeGift.drawing) : [];
+        // Each stroke gets at most length / spacing dots plus its first one
+        const totalLength = strokes.reduce((sum, stroke) => sum + strokeLength(stroke), 0);
+        const spacing = Math.max(GIFT_DRAWING_SPACING, totalLength / (GIFT_DRAWING_CAPACITY - strokes.length));
+        const points = strokes.flatMap(stroke => resampleStroke(stroke, spacing));
+        const count = Math.min(points.length, GIFT_DRAWING_CAPACITY);
+        for (let i = 0; i < count; i++) {
+          positions[i * 3] = (points[i][0] - 0.5) * GIFT_DRAWING_SIZE;
+          positions[i * 3 + 1] = (0.5 - points[i][1]) * GIFT_DRAWING_SIZE;
+          positions[i * 3 + 2] = 0;
+        }
+        geometry.attributes.position.needsUpdate = true;
+
+        const reveal = { count: 0 };
+        geometry.setDrawRange(0, 0);
+        giftDrawingRef.current.userData.reveal?.kill(); // A previous gift may still be drawing
+        giftDrawingRef.current.userData.reveal = gsap.to(reveal, {
+          count,
+          duration: Math.min(4, 1 + count / 300),
+          delay: 1.2,
+          ease: "none",
+          onUpdate: () => geometry.setDrawRange(0, Math.floor(reveal.count))
+        });
+      }
+
       // Animate Box In
       if (giftBoxGroupRef.current) {
         gsap.to(giftBoxGroupRef.current.scale, { x: 1, y: 1, z: 1, duration: 0.8, ease: "elastic.out(1, 0.5)" });
@@ -1465,18 +1847,7 @@ const ChristmasCanvas: React.FC<Props> = ({ targetMode, onVisionUpdate, activeGi
         }
 
         // Explode Confetti
-        if (confettiSystemRef.current) {
-          confettiSystemRef.current.visible = true;
-          confettiSystemRef.current.userData.active = true;
-          const vels = confettiSystemRef.current.userData.velocities;
-          const pos = confettiSystemRef.current.geometry.attributes.position.array as Float32Array;
-          for (let i = 0; i < 300; i++) {
-            pos[i * 3] = 0; pos[i * 3 + 1] = 2; pos[i * 3 + 2] = 0;
-            vels[i * 3] = (Math.random() - 0.5) * 0.8;
-            vels[i * 3 + 1] = Math.random() * 0.8 + 0.2;
-            vels[i * 3 + 2] = (Math.random() - 0.5) * 0.8;
-          }
-        }
+        if (confettiSystemRef.current) launchConfetti(confettiSystemRef.current);
       }
     }
   }, [activeGift, targetMode]);
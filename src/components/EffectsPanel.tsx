@@ -0,0 +1,180 @@
+import React from 'react';
+import { Magnet, X } from 'lucide-react';
+import { EffectSettings, FORCE_RADIUS_RANGE, ForceMode } from '../services/effectSettings';
+import { QUALITY_PROFILES, QUALITY_TIERS, QualityTier } from '../utils/quality';
+
+interface Props {
+  settings: EffectSettings;
+  activeTier: QualityTier | null; // What the scene is drawing right now
+  onChange: (settings: EffectSettings) => void;
+  onClose: () => void;
+}
+
+const FORCE_MODES: { mode: ForceMode, label: string }[] = [
+  { mode: 'repel', label: 'Đẩy ra' },
+  { mode: 'attract', label: 'Hút vào' },
+  { mode: 'off', label: 'Tắt' },
+];
+
+const EffectsPanel: React.FC<Props> = ({ settings, activeTier, onChange, onClose }) => {
+  const forceOff = settings.forceMode === 'off';
+  const reflectionsOff = activeTier !== null && !QUALITY_PROFILES[activeTier].reflections;
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm pointer-events-auto z-50 animate-fade-in p-4">
+      <div className="relative max-w-sm w-full bg-gray-900/95 rounded-2xl border border-white/10 shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-white/5">
+          <h2 className="text-lg font-bold text-yellow-400 flex items-center gap-2">
+            <Magnet className="w-5 h-5" /> Hiệu ứng
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-4 text-sm">
+          <div className="flex flex-col gap-2">
+            <span className="text-gray-400">Lực bàn tay (tuyết & đèn cây thông)</span>
+            <div className="grid grid-cols-3 gap-2">
+              {FORCE_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => onChange({ ...settings, forceMode: mode })}
+                  className={`py-1.5 rounded-lg border transition-colors ${settings.forceMode === mode ? 'bg-yellow-500/30 border-yellow-400 text-yellow-200' : 'bg-black/30 border-white/10 text-gray-300 hover:bg-white/10'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className={`flex flex-col gap-1 ${forceOff ? 'opacity-40' : ''}`}>
+            <span className="text-gray-400 flex justify-between">Cường độ <span>{Math.round(settings.forceStrength * 100)}%</span></span>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={settings.forceStrength}
+              disabled={forceOff}
+              onChange={(e) => onChange({ ...settings, forceStrength: Number(e.target.value) })}
+              className="accent-yellow-400"
+            />
+          </label>
+
+          <label className={`flex flex-col gap-1 ${forceOff ? 'opacity-40' : ''}`}>
+            <span className="text-gray-400 flex justify-between">Bán kính <span>{settings.forceRadius.toFixed(1)}</span></span>
+            <input
+              type="range"
+              min={FORCE_RADIUS_RANGE.min}
+              max={FORCE_RADIUS_RANGE.max}
+              step={0.5}
+              value={settings.forceRadius}
+              disabled={forceOff}
+              onChange={(e) => onChange({ ...settings, forceRadius: Number(e.target.value) })}
+              className="accent-yellow-400"
+            />
+          </label>
+
+          <label className="flex items-start gap-2 cursor-pointer border-t border-white/10 pt-4">
+            <input
+              type="checkbox"
+              checked={settings.headParallax}
+              onChange={(e) => onChange({ ...settings, headParallax: e.target.checked })}
+              className="accent-yellow-400 mt-0.5"
+            />
+            <span className="flex flex-col">
+              <span className="text-gray-300">Nhìn theo đầu (cửa sổ 3D)</span>
+              <span className="text-xs text-gray-500">Camera nhận diện khuôn mặt; mỉm cười để bắn pháo giấy. Tốn thêm chút hiệu năng.</span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.selfieCutout}
+              onChange={(e) => onChange({ ...settings, selfieCutout: e.target.checked })}
+              className="accent-yellow-400 mt-0.5"
+            />
+            <span className="flex flex-col">
+              <span className="text-gray-300">Đứng cạnh cây thông</span>
+              <span className="text-xs text-gray-500">Tách bạn khỏi phông nền camera và đặt vào cảnh 3D.</span>
+            </span>
+          </label>
+
+          <div className="flex flex-col gap-2 border-t border-white/10 pt-4">
+            <span className="text-gray-400 flex justify-between">
+              Chất lượng đồ họa
+              {settings.quality === 'auto' && activeTier && <span className="text-xs">Đang dùng: {QUALITY_PROFILES[activeTier].label}</span>}
+            </span>
+            <div className="grid grid-cols-5 gap-1 text-xs">
+              {(['auto', ...QUALITY_TIERS] as const).map(quality => (
+                <button
+                  key={quality}
+                  onClick={() => onChange({ ...settings, quality })}
+                  className={`py-1.5 rounded-lg border transition-colors ${settings.quality === quality ? 'bg-yellow-500/30 border-yellow-400 text-yellow-200' : 'bg-black/30 border-white/10 text-gray-300 hover:bg-white/10'}`}
+                >
+                  {quality === 'auto' ? 'Tự động' : QUALITY_PROFILES[quality].label}
+                </button>
+              ))}
+            </div>
+            <span className="text-xs text-gray-500">Tự động giảm khi máy bị giật. Khử răng cưa áp dụng sau khi tải lại trang.</span>
+          </div>
+
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.vignette}
+                onChange={(e) => onChange({ ...settings, vignette: e.target.checked })}
+                className="accent-yellow-400"
+              />
+              <span className="text-gray-300">Tối viền</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.filmGrain}
+                onChange={(e) => onChange({ ...settings, filmGrain: e.target.checked })}
+                className="accent-yellow-400"
+              />
+              <span className="text-gray-300">Hạt phim</span>
+            </label>
+          </div>
+
+          <label className={`flex flex-col gap-1 ${reflectionsOff ? 'opacity-40' : ''}`}>
+            <span className="text-gray-400 flex justify-between">Độ mờ phản chiếu <span>{Math.round(settings.reflectionBlur * 100)}%</span></span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.reflectionBlur}
+              disabled={reflectionsOff}
+              onChange={(e) => onChange({ ...settings, reflectionBlur: Number(e.target.value) })}
+              className="accent-yellow-400"
+            />
+          </label>
+
+          <label className={`flex flex-col gap-1 ${reflectionsOff ? 'opacity-40' : ''}`}>
+            <span className="text-gray-400 flex justify-between">Độ nhạt dần <span>{Math.round(settings.reflectionFade * 100)}%</span></span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.reflectionFade}
+              disabled={reflectionsOff}
+              onChange={(e) => onChange({ ...settings, reflectionFade: Number(e.target.value) })}
+              className="accent-yellow-400"
+            />
+          </label>
+
+          <p className="text-xs text-gray-500">Hiệu ứng bàn tay và khuôn mặt chỉ hoạt động khi bật camera. Cài đặt được lưu trên trình duyệt này.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EffectsPanel;
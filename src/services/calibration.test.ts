@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CALIBRATION_VERSION, loadCalibration, saveCalibration } from './calibration';
+
+const store = new Map<string, string>();
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+  });
+});
+
+afterEach(() => {
+  store.clear();
+  vi.unstubAllGlobals();
+});
+
+const stored = (thresholds: unknown) =>
+  store.set('gesture-calibration', JSON.stringify({ version: CALIBRATION_VERSION, calibratedAt: '', thresholds }));
+
+describe('loadCalibration', () => {
+  it('returns what was saved', () => {
+    const profile = saveCalibration({ curlRatios: [1.1, 1.15, 1.2, 1.25], thumbOutRatio: 0.45 });
+    expect(loadCalibration()).toEqual(profile);
+  });
+
+  it('returns null when nothing is stored', () => {
+    expect(loadCalibration()).toBeNull();
+  });
+
+  it.each([
+    ['missing thresholds', undefined],
+    ['three curl ratios', { curlRatios: [1.2, 1.2, 1.2], thumbOutRatio: 0.5 }],
+    ['a non-numeric ratio', { curlRatios: [1.2, '1.2', 1.2, 1.2], thumbOutRatio: 0.5 }],
+    ['a missing thumb ratio', { curlRatios: [1.2, 1.2, 1.2, 1.2] }],
+    ['a zero ratio', { curlRatios: [1.2, 0, 1.2, 1.2], thumbOutRatio: 0.5 }],
+  ])('drops a profile with %s', (_, thresholds) => {
+    stored(thresholds);
+    expect(loadCalibration()).toBeNull();
+  });
+
+  it('drops other versions and broken JSON', () => {
+    store.set('gesture-calibration', JSON.stringify({ version: CALIBRATION_VERSION + 1, thresholds: {} }));
+    expect(loadCalibration()).toBeNull();
+    store.set('gesture-calibration', '{');
+    expect(loadCalibration()).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+
+import { GestureThresholds, HandRatios, measureHand } from "../utils/gestures";
+import { VisionService } from "./visionService";
+
+// --- Stored Profile ---
+
+export const CALIBRATION_VERSION = 1;
+
+export interface CalibrationProfile {
+  version: number;
+  calibratedAt: string;
+  thresholds: GestureThresholds;
+}
+
+const STORAGE_KEY = 'gesture-calibration';
+
+// Four curl ratios and a thumb ratio, all positive numbers; anything else is a stale or hand-edited entry
+const validThresholds = (value: unknown): value is GestureThresholds => {
+  const { curlRatios, thumbOutRatio } = (value ?? {}) as Partial<Record<keyof GestureThresholds, unknown>>;
+  return Array.isArray(curlRatios) && curlRatios.length === 4 &&
+    [...curlRatios, thumbOutRatio].every(v => typeof v === 'number' && Number.isFinite(v) && v > 0);
+};
+
+export const loadCalibration = (): CalibrationProfile | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved?.version === CALIBRATION_VERSION && validThresholds(saved.thresholds) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveCalibration = (thresholds: GestureThresholds): CalibrationProfile => {
+  const profile = { version: CALIBRATION_VERSION, calibratedAt: new Date().toISOString(), thresholds };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.warn("Could not save calibration", e);
+  }
+  return profile;
+};
+
+export const clearCalibration = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// --- Sample Collection ---
+
+// Frames per pose: about 1.5s of camera frames
+export const CALIBRATION_SAMPLES = 45;
+
+// Measures the first visible hand on each camera frame until enough samples are in
+export class CalibrationCollector {
+  private samples: HandRatios[] = [];
+  private unsubscribe: (() => void) | null = null;
+
+  public start(onProgress: (fraction: number) => void, onDone: (samples: HandRatios[]) => void) {
+    this.stop();
+    this.samples = [];
+    this.unsubscribe = VisionService.getInstance().onFrame((hands) => {
+      if (hands.length === 0) return;
+      this.samples.push(measureHand(hands[0].landmarks));
+      onProgress(this.samples.length / CALIBRATION_SAMPLES);
+      if (this.samples.length >= CALIBRATION_SAMPLES) {
+        this.stop();
+        onDone(this.samples);
+      }
+    });
+  }
+
+  public stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+}
@@ -0,0 +1,67 @@
+
+// --- Camera Settings ---
+// Remembered per browser so the right webcam / quality is picked on the next visit.
+
+export interface CameraSettings {
+  deviceId: string | null; // null = browser default camera
+  width: number;
+  height: number;
+  frameRate: number;
+  mirror: boolean; // Only affects the preview window, not hand steering
+}
+
+export interface ResolutionOption {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const RESOLUTION_OPTIONS: ResolutionOption[] = [
+  { label: '360p', width: 480, height: 360 },
+  { label: '480p', width: 640, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+];
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30,
+  mirror: true,
+};
+
+const STORAGE_KEY = 'camera-settings';
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_CAMERA_SETTINGS, ...saved } : DEFAULT_CAMERA_SETTINGS;
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save camera settings", e);
+  }
+};
+
+// Ideal (not exact) size and rate so cameras that can't match still open
+export const toVideoConstraints = (settings: CameraSettings, useDevice = true): MediaTrackConstraints => ({
+  ...(useDevice && settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+  width: { ideal: settings.width },
+  height: { ideal: settings.height },
+  frameRate: { ideal: settings.frameRate },
+});
+
+// Labels are only filled in once camera permission has been granted
+export const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
@@ -0,0 +1,54 @@
+
+import { QualityTier } from '../utils/quality';
+
+// --- Effect Settings ---
+// Optional interactive effects, remembered per browser like the camera settings.
+
+export type ForceMode = 'off' | 'repel' | 'attract';
+
+export interface EffectSettings {
+  forceMode: ForceMode; // What the tracked palm does to nearby snow and tree lights
+  forceStrength: number; // 0..1
+  forceRadius: number; // World units around the palm
+  headParallax: boolean; // Face tracking moves the view like a window; smiling sets off confetti
+  selfieCutout: boolean; // The viewer, cut out of the camera feed, stands next to the tree
+  quality: QualityTier | 'auto'; // 'auto' lets the FPS governor pick
+  vignette: boolean; // Darkened edges (bloom tiers only)
+  filmGrain: boolean;
+  reflectionBlur: number; // 0..1, how soft the mirror floor is
+  reflectionFade: number; // 0..1, how quickly the reflection fades away from the tree
+}
+
+export const FORCE_RADIUS_RANGE = { min: 1, max: 8 };
+
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = {
+  forceMode: 'repel',
+  forceStrength: 0.5,
+  forceRadius: 4,
+  headParallax: false,
+  selfieCutout: false,
+  quality: 'auto',
+  vignette: true,
+  filmGrain: false,
+  reflectionBlur: 0.35,
+  reflectionFade: 0.5,
+};
+
+const STORAGE_KEY = 'effect-settings';
+
+export const loadEffectSettings = (): EffectSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_EFFECT_SETTINGS, ...saved } : DEFAULT_EFFECT_SETTINGS;
+  } catch {
+    return DEFAULT_EFFECT_SETTINGS;
+  }
+};
+
+export const saveEffectSettings = (settings: EffectSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save effect settings", e);
+  }
+};
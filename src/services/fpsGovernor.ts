@@ -0,0 +1,83 @@
+// --- FPS Governor ---
+// Measures frame rate over short windows and asks for a lower quality tier when frames
+// drop, or a higher one after a sustained stretch of headroom. Each step down doubles the
+// stretch needed to step back up, so a borderline device settles instead of flip-flopping.
+
+export interface FpsGovernorOptions {
+  windowMs: number; // Length of one measurement
+  downFps: number; // Below this, step down
+  upFps: number; // At or above this, the window counts toward stepping up
+  upWindows: number; // Good windows in a row before stepping up
+  maxUpWindows: number;
+  maxFrameMs: number; // Longer frames (tab hidden, debugger) void the window
+}
+
+export const DEFAULT_FPS_GOVERNOR_OPTIONS: FpsGovernorOptions = {
+  windowMs: 2000,
+  downFps: 45,
+  upFps: 57,
+  upWindows: 5,
+  maxUpWindows: 60,
+  maxFrameMs: 250,
+};
+
+export type FpsVerdict = 'down' | 'up' | null;
+
+export class FpsGovernor {
+  private options: FpsGovernorOptions;
+  private frames = 0;
+  private elapsedMs = 0;
+  private goodWindows = 0;
+  private upWindows: number;
+  private settling = true; // First window after a change is discarded
+
+  constructor(options: Partial<FpsGovernorOptions> = {}) {
+    this.options = { ...DEFAULT_FPS_GOVERNOR_OPTIONS, ...options };
+    this.upWindows = this.options.upWindows;
+  }
+
+  // Call once per rendered frame; returns a verdict at most once per window
+  sample(frameMs: number): FpsVerdict {
+    const { windowMs, downFps, upFps, maxUpWindows, maxFrameMs } = this.options;
+    if (frameMs > maxFrameMs) {
+      this.restartWindow();
+      return null;
+    }
+
+    this.frames++;
+    this.elapsedMs += frameMs;
+    if (this.elapsedMs < windowMs) return null;
+
+    const fps = (this.frames * 1000) / this.elapsedMs;
+    const settling = this.settling;
+    this.restartWindow();
+    this.settling = false;
+    if (settling) return null;
+
+    if (fps < downFps) {
+      this.goodWindows = 0;
+      this.upWindows = Math.min(maxUpWindows, this.upWindows * 2);
+      this.settling = true;
+      return 'down';
+    }
+    this.goodWindows = fps >= upFps ? this.goodWindows + 1 : 0;
+    if (this.goodWindows >= this.upWindows) {
+      this.goodWindows = 0;
+      this.settling = true;
+      return 'up';
+    }
+    return null;
+  }
+
+  // After a tier change made elsewhere (e.g. manual override ended)
+  reset() {
+    this.restartWindow();
+    this.goodWindows = 0;
+    this.settling = true;
+  }
+
+  private restartWindow() {
+    this.frames = 0;
+    this.elapsedMs = 0;
+  }
+}
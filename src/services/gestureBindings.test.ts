@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  BINDING_ACTIONS, BINDING_TRIGGERS, DEFAULT_BINDINGS, GestureBindings, decodeBindings, encodeBindings, loadBindings,
+  sameBindings,
+} from './gestureBindings';
+
+describe('binding share codes', () => {
+  it('round-trips the defaults', () => {
+    const decoded = decodeBindings(encodeBindings(DEFAULT_BINDINGS));
+    expect(decoded).not.toBeNull();
+    expect(sameBindings(decoded!, DEFAULT_BINDINGS)).toBe(true);
+  });
+
+  it('round-trips every trigger and every action', () => {
+    BINDING_ACTIONS.forEach(action => {
+      const bindings: GestureBindings = Object.fromEntries(BINDING_TRIGGERS.map(trigger => [trigger, action]));
+      const decoded = decodeBindings(encodeBindings(bindings));
+      expect(sameBindings(decoded!, bindings)).toBe(true);
+    });
+  });
+
+  // Links already shared must keep decoding to the same bindings
+  it('keeps the published codes', () => {
+    expect(encodeBindings(DEFAULT_BINDINGS)).toBe('011339b8d7e6f5');
+    expect(decodeBindings('0113f5')).toEqual({ Closed_Fist: 'show_tree', Open_Palm: 'open_gift', Swipe_Right: 'next_item' });
+  });
+
+  it('leaves unbound triggers out', () => {
+    expect(encodeBindings({})).toBe('');
+    expect(encodeBindings({ Pinch: 'none' })).toBe('');
+    expect(decodeBindings('')).toEqual({});
+  });
+
+  it('rejects malformed codes', () => {
+    ['011', '01!3', '0Z', 'z1', '0z'].forEach(code => {
+      expect(decodeBindings(code)).toBeNull();
+    });
+  });
+});
+
+describe('loadBindings', () => {
+  const stored = (value: string | null) => vi.stubGlobal('localStorage', { getItem: () => value });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the defaults when nothing valid is stored', () => {
+    ['null', '[]', '"tree"', '{'].forEach(value => {
+      stored(value);
+      expect(loadBindings()).toEqual(DEFAULT_BINDINGS);
+    });
+    stored(null);
+    expect(loadBindings()).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it('keeps valid entries, including unbound triggers', () => {
+    stored(JSON.stringify({ Pinch: 'snapshot', Closed_Fist: 'none' }));
+    expect(loadBindings()).toEqual({ Pinch: 'snapshot', Closed_Fist: 'none' });
+  });
+
+  it('replaces unknown actions with the default and drops unknown triggers', () => {
+    stored(JSON.stringify({ Closed_Fist: 'explode', Pinch: 42, Jazz_Hands: 'snapshot' }));
+    expect(loadBindings()).toEqual({ Closed_Fist: 'show_tree' });
+  });
+});
@@ -0,0 +1,138 @@
+
+import { Gesture, MotionGesture } from "../types";
+import { FORMATION_IDS, FormationId } from "../utils/geometry";
+
+// --- Triggers & Actions ---
+// A trigger is a static gesture (on start), the same gesture held for a while,
+// or a motion gesture. Each trigger maps to at most one named action.
+
+export type StaticGesture = Exclude<Gesture, 'None'>;
+export type BindingTrigger = StaticGesture | `${StaticGesture}:hold` | MotionGesture;
+
+export type BindingAction =
+  | 'none'
+  | 'show_tree'
+  | 'show_sphere'
+  | 'open_gift'
+  | 'close_gift'
+  | 'next_item'
+  | 'prev_item'
+  | 'toggle_music'
+  | 'snapshot'
+  | 'cycle_theme'
+  | 'next_formation'
+  | `formation:${FormationId}`;
+
+export type GestureBindings = Partial<Record<BindingTrigger, BindingAction>>;
+
+export const STATIC_GESTURES: StaticGesture[] = ['Closed_Fist', 'Open_Palm', 'Pointing', 'Victory', 'Thumb_Up', 'Pinch', 'ILoveYou'];
+export const MOTION_GESTURES: MotionGesture[] = ['Swipe_Left', 'Swipe_Right', 'Swipe_Up', 'Swipe_Down', 'Circle', 'Wave'];
+
+// Display order of the bindings panel (share links use the fixed codes below)
+export const BINDING_TRIGGERS: BindingTrigger[] = [
+  ...STATIC_GESTURES,
+  ...STATIC_GESTURES.map(g => `${g}:hold` as const),
+  ...MOTION_GESTURES,
+];
+
+export const BINDING_ACTIONS: BindingAction[] = [
+  'none', 'show_tree', 'show_sphere', 'open_gift', 'close_gift', 'next_item', 'prev_item', 'toggle_music', 'snapshot', 'cycle_theme',
+  'next_formation', ...FORMATION_IDS.map(id => `formation:${id}` as const),
+];
+
+// Fist and palm behave as before; the rest are opt-in extras
+export const DEFAULT_BINDINGS: GestureBindings = {
+  Closed_Fist: 'show_tree',
+  Open_Palm: 'open_gift',
+  Victory: 'cycle_theme',
+  'Thumb_Up:hold': 'snapshot',
+  'ILoveYou:hold': 'toggle_music',
+  Swipe_Left: 'prev_item',
+  Swipe_Right: 'next_item',
+};
+
+export const actionFor = (bindings: GestureBindings, trigger: BindingTrigger): BindingAction =>
+  bindings[trigger] ?? 'none';
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'gesture-bindings';
+
+// Stale or hand-edited entries (unknown gesture or action) fall back to that trigger's default
+const validBindings = (saved: Record<string, unknown>): GestureBindings => {
+  const bindings: GestureBindings = {};
+  BINDING_TRIGGERS.forEach(trigger => {
+    if (!(trigger in saved)) return;
+    const action = saved[trigger];
+    if (BINDING_ACTIONS.includes(action as BindingAction)) bindings[trigger] = action as BindingAction;
+    else if (DEFAULT_BINDINGS[trigger]) bindings[trigger] = DEFAULT_BINDINGS[trigger];
+  });
+  return bindings;
+};
+
+export const loadBindings = (): GestureBindings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? validBindings(saved) : DEFAULT_BINDINGS;
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (bindings: GestureBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn("Could not save gesture bindings", e);
+  }
+};
+
+// --- Share Link Encoding ---
+// Two base-36 characters per binding (trigger code, action code), full table.
+// e.g. "0113f5" = Closed_Fist→show_tree, Open_Palm→open_gift, Swipe_Right→next_item
+// The codes are frozen: never change or reuse one, give new entries the next free code.
+// (Typed as a Record, so a new gesture or formation without a code doesn't compile.)
+
+const TRIGGER_CODES: Record<BindingTrigger, string> = {
+  Closed_Fist: '0', Open_Palm: '1', Pointing: '2', Victory: '3', Thumb_Up: '4', Pinch: '5', ILoveYou: '6',
+  'Closed_Fist:hold': '7', 'Open_Palm:hold': '8', 'Pointing:hold': '9', 'Victory:hold': 'a',
+  'Thumb_Up:hold': 'b', 'Pinch:hold': 'c', 'ILoveYou:hold': 'd',
+  Swipe_Left: 'e', Swipe_Right: 'f', Swipe_Up: 'g', Swipe_Down: 'h', Circle: 'i', Wave: 'j',
+};
+
+const ACTION_CODES: Record<BindingAction, string> = {
+  none: '0', show_tree: '1', show_sphere: '2', open_gift: '3', close_gift: '4', next_item: '5', prev_item: '6',
+  toggle_music: '7', snapshot: '8', cycle_theme: '9', next_formation: 'a',
+  'formation:tree': 'b', 'formation:sphere': 'c', 'formation:heart': 'd', 'formation:star': 'e',
+  'formation:snowman': 'f', 'formation:galaxy': 'g', 'formation:gift': 'h', 'formation:bell': 'i',
+  'formation:year': 'j', 'formation:name': 'k', 'formation:wish': 'l', 'formation:photo': 'm',
+};
+
+const invert = <T extends string>(codes: Record<T, string>): Map<string, T> =>
+  new Map(Object.entries(codes).map(([value, code]) => [code as string, value as T]));
+
+const TRIGGERS_BY_CODE = invert(TRIGGER_CODES);
+const ACTIONS_BY_CODE = invert(ACTION_CODES);
+
+export const encodeBindings = (bindings: GestureBindings): string =>
+  BINDING_TRIGGERS
+    .map(trigger => {
+      const action = actionFor(bindings, trigger);
+      return action === 'none' ? '' : TRIGGER_CODES[trigger] + ACTION_CODES[action];
+    })
+    .join('');
+
+export const decodeBindings = (code: string): GestureBindings | null => {
+  if (!/^([0-9a-z]{2})*$/.test(code)) return null;
+  const bindings: GestureBindings = {};
+  for (let i = 0; i < code.length; i += 2) {
+    const trigger = TRIGGERS_BY_CODE.get(code[i]);
+    const action = ACTIONS_BY_CODE.get(code[i + 1]);
+    if (!trigger || !action) return null;
+    bindings[trigger] = action;
+  }
+  return bindings;
+};
+
+export const sameBindings = (a: GestureBindings, b: GestureBindings): boolean =>
+  BINDING_TRIGGERS.every(trigger => actionFor(a, trigger) === actionFor(b, trigger));
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { loadRecording } from '../__fixtures__/loadRecording';
+import { Gesture, VisionResult } from '../types';
+import { GestureEvent, GestureFilter, GestureFilterOptions } from './gestureFilter';
+import { HandTracker } from './handTracker';
+import { toRawHands } from './landmarkRecorder';
+
+// Frames in the fixtures are 33 ms apart
+const FRAME_MS = 33;
+
+// Feeds a recording through the live pipeline (tracker, then filter), followed by `tailMs` without hands
+const replay = (name: string, options: Partial<GestureFilterOptions> = {}, tailMs = 0) => {
+  const tracker = new HandTracker();
+  const filter = new GestureFilter(options);
+  const events: [GestureEvent['type'], Gesture, number][] = [];
+  filter.subscribe(({ type, gesture, timestamp }) => events.push([type, gesture, timestamp]));
+
+  const gestures = new Map<number, Gesture>();
+  const step = (t: number, result: VisionResult) => {
+    gestures.set(t, filter.update(result, t).hands[0]?.gesture ?? 'None');
+  };
+  const { frames } = loadRecording(name);
+  frames.forEach(frame => step(frame.t, tracker.process(toRawHands(frame))));
+  const last = frames[frames.length - 1].t;
+  for (let t = last + FRAME_MS; t <= last + tailMs; t += FRAME_MS) step(t, tracker.process([]));
+
+  return { events, gestureAt: (t: number) => gestures.get(t) };
+};
+
+describe('GestureFilter', () => {
+  describe('hold time', () => {
+    it('commits a gesture once it has persisted for holdMs', () => {
+      // Fist from t=0: the first frame 250 ms in is t=264
+      const { events, gestureAt } = replay('closed-fist');
+      expect(events).toEqual([['start', 'Closed_Fist', 264]]);
+      expect(gestureAt(231)).toBe('None');
+      expect(gestureAt(264)).toBe('Closed_Fist');
+    });
+
+    it('asks a longer hold for Open_Palm and keeps the old gesture meanwhile', () => {
+      // Palm from t=495: the first frame 500 ms in is t=1023
+      const { events, gestureAt } = replay('fist-to-palm');
+      expect(events).toEqual([
+        ['start', 'Closed_Fist', 264],
+        ['end', 'Closed_Fist', 1023],
+        ['start', 'Open_Palm', 1023],
+      ]);
+      expect(gestureAt(990)).toBe('Closed_Fist');
+    });
+
+    it('falls back to holdMs without an override', () => {
+      const { events } = replay('fist-to-palm', { holdOverrides: {} });
+      expect(events).toContainEqual(['start', 'Open_Palm', 759]);
+    });
+
+    it('fires a single hold event after longHoldMs', () => {
+      // The fist changes to a palm before it was stable for 300 ms; the palm holds from t=1023
+      const { events } = replay('fist-to-palm', { longHoldMs: 300 });
+      expect(events.filter(([type]) => type === 'hold')).toEqual([['hold', 'Open_Palm', 1353]]);
+    });
+  });
+
+  // The palm is seen until t=792, missing for ~300 ms, back from t=1122 to t=1452, then gone
+  describe('grace period', () => {
+    it('keeps the gesture through a dropout shorter than lostGraceMs', () => {
+      const { events, gestureAt } = replay('palm-dropout');
+      expect(events).toEqual([['start', 'Open_Palm', 528]]);
+      expect(gestureAt(957)).toBe('Open_Palm');
+      expect(gestureAt(1122)).toBe('Open_Palm');
+    });
+
+    it('ends the gesture once the hand has been gone longer than lostGraceMs', () => {
+      // 1452 + 600 = 2052, so the first update past it is t=2079
+      const { events, gestureAt } = replay('palm-dropout', {}, 1000);
+      expect(events).toEqual([['start', 'Open_Palm', 528], ['end', 'Open_Palm', 2079]]);
+      expect(gestureAt(2046)).toBe('Open_Palm');
+      expect(gestureAt(2079)).toBe('None');
+    });
+
+    it('ends during the dropout with a shorter grace period, and the palm has to be held again', () => {
+      // Back at t=1122, the palm would need until t=1650 to commit, past the end of the clip
+      const { events, gestureAt } = replay('palm-dropout', { lostGraceMs: 100 });
+      expect(events).toEqual([['start', 'Open_Palm', 528], ['end', 'Open_Palm', 924]]);
+      expect(gestureAt(1452)).toBe('None');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+
+import { Gesture, HandSlot, HandState, VisionResult, toVisionResult } from "../types";
+
+export interface GestureFilterOptions {
+  holdMs: number; // How long a new gesture must persist before it counts
+  holdOverrides: Partial<Record<Gesture, number>>; // Per-gesture hold times
+  lostGraceMs: number; // How long the hand may vanish before the gesture ends
+  longHoldMs: number; // Stable this long = one 'hold' event
+}
+
+export type GestureEventType = 'start' | 'hold' | 'end';
+
+export interface GestureEvent {
+  type: GestureEventType;
+  gesture: Gesture;
+  slot: HandSlot; // Which tracked hand produced it
+  timestamp: number;
+}
+
+export type GestureListener = (event: GestureEvent) => void;
+
+export const DEFAULT_GESTURE_FILTER_OPTIONS: GestureFilterOptions = {
+  holdMs: 250,
+  // Opening gifts is irreversible, so ask for a deliberate palm
+  holdOverrides: { Open_Palm: 500 },
+  lostGraceMs: 600,
+  longHoldMs: 1500,
+};
+
+// Per-hand debounce state
+interface Track {
+  stable: Gesture;
+  stableConfidence: number;
+  stableSince: number;
+  holdFired: boolean;
+  candidate: Gesture;
+  candidateSince: number;
+  lastSeen: number;
+  lastHand: HandState | null;
+}
+
+const createTrack = (): Track => ({
+  stable: 'None',
+  stableConfidence: 0,
+  stableSince: 0,
+  holdFired: false,
+  candidate: 'None',
+  candidateSince: 0,
+  lastSeen: 0,
+  lastHand: null,
+});
+
+// Debounces raw per-frame results into stable gestures with start/end events
+export class GestureFilter {
+  private options: GestureFilterOptions;
+  private listeners = new Set<GestureListener>();
+  private tracks: Record<HandSlot, Track> = { 0: createTrack(), 1: createTrack() };
+
+  constructor(options: Partial<GestureFilterOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_FILTER_OPTIONS, ...options };
+  }
+
+  public subscribe(listener: GestureListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public reset(now: number = performance.now()) {
+    ([0, 1] as HandSlot[]).forEach(slot => {
+      this.transition(slot, 'None', 0, now);
+      this.tracks[slot] = createTrack();
+    });
+  }
+
+  public update(raw: VisionResult, now: number = performance.now()): VisionResult {
+    const hands: HandState[] = [];
+    ([0, 1] as HandSlot[]).forEach(slot => {
+      const hand = this.updateTrack(slot, raw.hands.find(h => h.slot === slot) || null, now);
+      if (hand) hands.push(hand);
+    });
+    return toVisionResult(hands);
+  }
+
+  private updateTrack(slot: HandSlot, hand: HandState | null, now: number): HandState | null {
+    const track = this.tracks[slot];
+
+    if (!hand) {
+      // Grace period: keep reporting the last hand until it has really gone
+      if (track.stable !== 'None' && track.lastHand && now - track.lastSeen <= this.options.lostGraceMs) {
+        return { ...track.lastHand, gesture: track.stable, confidence: track.stableConfidence };
+      }
+      this.transition(slot, 'None', 0, now);
+      track.candidate = 'None';
+      track.lastHand = null;
+      return null;
+    }
+
+    track.lastSeen = now;
+    track.lastHand = hand;
+
+    if (hand.gesture !== track.candidate) {
+      track.candidate = hand.gesture;
+      track.candidateSince = now;
+    }
+
+    if (hand.gesture === track.stable) {
+      track.stableConfidence = hand.confidence;
+      if (track.stable !== 'None' && !track.holdFired && now - track.stableSince >= this.options.longHoldMs) {
+        track.holdFired = true;
+        this.emit({ type: 'hold', gesture: track.stable, slot, timestamp: now });
+      }
+    } else if (now - track.candidateSince >= this.holdFor(track.candidate)) {
+      this.transition(slot, track.candidate, hand.confidence, now);
+    }
+
+    // Not yet stable: the hand is visible but has no committed gesture
+    return { ...hand, gesture: track.stable, confidence: track.stableConfidence };
+  }
+
+  private holdFor(gesture: Gesture): number {
+    return this.options.holdOverrides[gesture] ?? this.options.holdMs;
+  }
+
+  private transition(slot: HandSlot, next: Gesture, confidence: number, now: number) {
+    const track = this.tracks[slot];
+    const prev = track.stable;
+    track.stable = next;
+    track.stableConfidence = confidence;
+    if (prev === next) return;
+    track.stableSince = now;
+    track.holdFired = false;
+    if (prev !== 'None') this.emit({ type: 'end', gesture: prev, slot, timestamp: now });
+    if (next !== 'None') this.emit({ type: 'start', gesture: next, slot, timestamp: now });
+  }
+
+  private emit(event: GestureEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
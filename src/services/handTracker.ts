@@ -0,0 +1,47 @@
+
+import { EMPTY_VISION_RESULT, HandLandmark, HandState, Handedness, VisionResult, toVisionResult } from "../types";
+import { DEFAULT_GESTURE_THRESHOLDS, GestureThresholds, assignHandSlots, classifyHand, palmCenter } from "../utils/gestures";
+
+// One detected hand as it comes out of the landmarker (or a recording)
+export interface RawHand {
+  landmarks: HandLandmark[];
+  handedness: Handedness | null;
+}
+
+// Turns raw per-frame landmarks into classified, slot-tracked hands.
+// Shared by the live camera path and recording replay so both classify identically.
+export class HandTracker {
+  private lastResult: VisionResult = EMPTY_VISION_RESULT;
+  private slotCenters: (HandLandmark | null)[] = [null, null];
+  private thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS;
+
+  public get current(): VisionResult {
+    return this.lastResult;
+  }
+
+  public setThresholds(thresholds: GestureThresholds) {
+    this.thresholds = thresholds;
+  }
+
+  public reset() {
+    this.lastResult = EMPTY_VISION_RESULT;
+    this.slotCenters = [null, null];
+  }
+
+  public process(rawHands: RawHand[]): VisionResult {
+    const centers = rawHands.map(h => palmCenter(h.landmarks));
+    const slots = assignHandSlots(centers, this.slotCenters);
+
+    const hands: HandState[] = rawHands.map(({ landmarks, handedness }, i) => {
+      const slot = slots[i];
+      const previous = this.lastResult.hands.find(h => h.slot === slot);
+      const { gesture, confidence, fingers } = classifyHand(landmarks, previous?.fingers, this.thresholds);
+      return { slot, gesture, confidence, handedness, fingers, landmarks };
+    });
+
+    this.slotCenters = [null, null];
+    slots.forEach((slot, i) => { this.slotCenters[slot] = centers[i]; });
+    this.lastResult = toVisionResult(hands);
+    return this.lastResult;
+  }
+}
@@ -0,0 +1,411 @@
+
+import { EMPTY_VISION_RESULT, Gesture, HandState, HeadPose, SegmentationMask, VisionResult, toVisionResult } from "../types";
+import { VisionInitOptions, VisionService } from "./visionService";
+import { HandTracker } from "./handTracker";
+import { LandmarkRecording, toRawHands } from "./landmarkRecorder";
+import { GestureThresholds } from "../utils/gestures";
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS, listVideoDevices, toVideoConstraints } from "./cameraSettings";
+
+// --- Input Provider Contract ---
+// The canvas polls one provider per frame; everything downstream (gesture filter,
+// mode switching, gifts) only ever sees the VisionResult it returns.
+
+export type InputProviderKind = 'camera' | 'keyboard' | 'pointer' | 'scripted' | 'replay';
+
+export interface InputProvider {
+  readonly kind: InputProviderKind;
+  start(): Promise<void>;
+  stop(): void;
+  poll(now: number): VisionResult;
+  // Personal classification thresholds, for providers that classify landmarks themselves
+  setThresholds?(thresholds: GestureThresholds): void;
+  // Viewer's head, for providers that can see a face
+  pollHead?(): HeadPose | null;
+  // Live camera feed and its person mask, for the selfie cutout
+  readonly video?: HTMLVideoElement;
+  pollMask?(): SegmentationMask | null;
+}
+
+// Synthetic presses must outlast the gesture filter's longest hold time
+const PRESS_MIN_MS = 900;
+
+// Landmark-less hand for providers that only know the gesture
+const syntheticResult = (gesture: Gesture): VisionResult => {
+  const hand: HandState = {
+    slot: 0,
+    gesture,
+    confidence: 1,
+    handedness: null,
+    fingers: { thumb: false, index: false, middle: false, ring: false, pinky: false },
+    landmarks: [],
+  };
+  return toVisionResult([hand]);
+};
+
+// Gesture held by discrete presses (keys, taps)
+class SyntheticHand {
+  private gesture: Gesture = 'None';
+  private held = false;
+  private until = 0;
+
+  public press(gesture: Gesture, now: number, held: boolean) {
+    this.gesture = gesture;
+    this.held = held;
+    this.until = now + PRESS_MIN_MS;
+  }
+
+  public release() {
+    this.held = false;
+  }
+
+  public clear() {
+    this.gesture = 'None';
+    this.held = false;
+    this.until = 0;
+  }
+
+  public read(now: number): VisionResult {
+    if (this.gesture === 'None' || (!this.held && now > this.until)) return EMPTY_VISION_RESULT;
+    return syntheticResult(this.gesture);
+  }
+}
+
+// --- Camera (MediaPipe) ---
+
+// 'fallback' = the chosen camera is unavailable and the default one is used instead
+export type CameraStatus = 'active' | 'fallback' | 'lost';
+
+export interface CameraInputOptions extends Pick<VisionInitOptions, 'onProgress' | 'detectionFps'> {
+  settings?: CameraSettings;
+  onStatus?: (status: CameraStatus) => void;
+}
+
+export class CameraInputProvider implements InputProvider {
+  public readonly kind = 'camera';
+  // Detection source; also drawn by the camera preview window
+  public readonly video = document.createElement('video');
+  private stream: MediaStream | null = null;
+  private stopped = false;
+  private settings: CameraSettings;
+
+  constructor(private options: CameraInputOptions = {}) {
+    this.settings = options.settings ?? DEFAULT_CAMERA_SETTINGS;
+  }
+
+  public async start() {
+    this.stopped = false;
+    // Ask for the camera first so the permission prompt shows up immediately.
+    // The same stream then feeds detection, no separate permission check.
+    await this.openStream();
+    if (this.stopped) return;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+
+    const vision = VisionService.getInstance();
+    await vision.initialize(this.options);
+    if (!this.stopped) vision.start(this.video);
+  }
+
+  public stop() {
+    this.stopped = true;
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    VisionService.getInstance().stop();
+    this.releaseStream();
+    this.video.srcObject = null;
+  }
+
+  public poll(): VisionResult {
+    return VisionService.getInstance().detect();
+  }
+
+  public pollHead(): HeadPose | null {
+    return VisionService.getInstance().detectHead();
+  }
+
+  public pollMask(): SegmentationMask | null {
+    return VisionService.getInstance().detectMask();
+  }
+
+  private async openStream() {
+    let stream: MediaStream;
+    let status: CameraStatus = 'active';
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: toVideoConstraints(this.settings) });
+    } catch (e) {
+      // The remembered camera is gone (unplugged, other machine): use the default one
+      const name = (e as DOMException)?.name;
+      if (!this.settings.deviceId || (name !== 'NotFoundError' && name !== 'OverconstrainedError')) throw e;
+      stream = await navigator.mediaDevices.getUserMedia({ video: toVideoConstraints(this.settings, false) });
+      status = 'fallback';
+    }
+    if (this.stopped) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    this.releaseStream();
+    this.stream = stream;
+    stream.getVideoTracks().forEach(track => track.addEventListener('ended', this.handleTrackEnded));
+    this.video.srcObject = stream;
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.play().catch(() => {});
+    this.options.onStatus?.(status);
+  }
+
+  private releaseStream() {
+    if (!this.stream) return;
+    this.stream.getTracks().forEach(track => {
+      track.removeEventListener('ended', this.handleTrackEnded);
+      track.stop();
+    });
+    this.stream = null;
+  }
+
+  private get activeDeviceId(): string | undefined {
+    return this.stream?.getVideoTracks()[0]?.getSettings().deviceId;
+  }
+
+  private reopen() {
+    this.openStream().catch((e) => {
+      console.warn("No camera available", e);
+      this.releaseStream();
+      this.video.srcObject = null;
+      this.options.onStatus?.('lost');
+    });
+  }
+
+  // Camera unplugged (or taken by another app)
+  private handleTrackEnded = () => {
+    if (this.stopped) return;
+    this.releaseStream();
+    this.reopen();
+  };
+
+  // Camera plugged in: recover from 'lost', or switch back to the chosen camera
+  private handleDeviceChange = async () => {
+    if (this.stopped) return;
+    if (!this.stream) {
+      this.reopen();
+      return;
+    }
+    const wanted = this.settings.deviceId;
+    if (!wanted || wanted === this.activeDeviceId) return;
+    try {
+      const devices = await listVideoDevices();
+      if (!this.stopped && devices.some(d => d.deviceId === wanted)) this.reopen();
+    } catch (e) {
+      // The current stream keeps running; only the switch back is skipped
+      console.warn("Could not list cameras", e);
+    }
+  };
+}
+
+// --- Keyboard ---
+
+export const KEY_GESTURES: Record<string, Gesture> = {
+  f: 'Closed_Fist',
+  p: 'Open_Palm',
+  i: 'Pointing',
+  v: 'Victory',
+  t: 'Thumb_Up',
+  c: 'Pinch',
+  l: 'ILoveYou',
+};
+
+export class KeyboardInputProvider implements InputProvider {
+  public readonly kind = 'keyboard';
+  private hand = new SyntheticHand();
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    // Don't steal keys from the name / gift inputs or browser shortcuts (Ctrl+F, Cmd+P...)
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    if ((e.target as HTMLElement | null)?.closest?.('input, textarea')) return;
+    const gesture = KEY_GESTURES[e.key.toLowerCase()];
+    if (gesture) this.hand.press(gesture, performance.now(), true);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    if (KEY_GESTURES[e.key.toLowerCase()]) this.hand.release();
+  };
+
+  public async start() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+  }
+
+  public stop() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    this.hand.clear();
+  }
+
+  public poll(now: number): VisionResult {
+    return this.hand.read(now);
+  }
+}
+
+// --- Mouse / Touch ---
+
+// Press longer than this on the scene = fist; shorter = tap = palm
+const HOLD_MS = 300;
+
+export class PointerInputProvider implements InputProvider {
+  public readonly kind = 'pointer';
+  private hand = new SyntheticHand();
+  private activePointers = new Set<number>();
+  private downAt: number | null = null;
+
+  // Only presses on the 3D scene count, not on the UI overlay
+  private isScene = (e: PointerEvent) => e.target instanceof HTMLCanvasElement;
+
+  private handleDown = (e: PointerEvent) => {
+    if (!this.isScene(e)) return;
+    this.activePointers.add(e.pointerId);
+    // Second finger = pinch-to-zoom, not a gesture
+    this.downAt = this.activePointers.size === 1 ? performance.now() : null;
+  };
+
+  private handleUp = (e: PointerEvent) => {
+    if (!this.activePointers.delete(e.pointerId)) return;
+    const now = performance.now();
+    if (this.downAt !== null && now - this.downAt < HOLD_MS) {
+      this.hand.press('Open_Palm', now, false);
+    } else {
+      this.hand.release();
+    }
+    this.downAt = null;
+  };
+
+  public async start() {
+    window.addEventListener('pointerdown', this.handleDown);
+    window.addEventListener('pointerup', this.handleUp);
+    window.addEventListener('pointercancel', this.handleUp);
+  }
+
+  public stop() {
+    window.removeEventListener('pointerdown', this.handleDown);
+    window.removeEventListener('pointerup', this.handleUp);
+    window.removeEventListener('pointercancel', this.handleUp);
+    this.activePointers.clear();
+    this.downAt = null;
+    this.hand.clear();
+  }
+
+  public poll(now: number): VisionResult {
+    if (this.downAt !== null && now - this.downAt >= HOLD_MS) {
+      this.hand.press('Closed_Fist', now, true);
+    }
+    return this.hand.read(now);
+  }
+}
+
+// --- Scripted (demo / attract loop) ---
+
+export interface ScriptStep {
+  gesture: Gesture;
+  durationMs: number;
+}
+
+export const DEMO_SCRIPT: ScriptStep[] = [
+  { gesture: 'None', durationMs: 2000 },
+  { gesture: 'Open_Palm', durationMs: 1500 },
+  { gesture: 'None', durationMs: 5000 },
+  { gesture: 'Closed_Fist', durationMs: 1500 },
+  { gesture: 'None', durationMs: 5000 },
+];
+
+export class ScriptedInputProvider implements InputProvider {
+  public readonly kind = 'scripted';
+  private startedAt = 0;
+  private totalMs: number;
+
+  constructor(private steps: ScriptStep[] = DEMO_SCRIPT, private loop = true) {
+    this.totalMs = steps.reduce((sum, step) => sum + step.durationMs, 0);
+  }
+
+  public async start() {
+    this.startedAt = performance.now();
+  }
+
+  public stop() {}
+
+  public poll(now: number): VisionResult {
+    let t = now - this.startedAt;
+    if (this.totalMs <= 0 || (!this.loop && t >= this.totalMs)) return EMPTY_VISION_RESULT;
+    t %= this.totalMs;
+
+    for (const step of this.steps) {
+      if (t < step.durationMs) {
+        return step.gesture === 'None' ? EMPTY_VISION_RESULT : syntheticResult(step.gesture);
+      }
+      t -= step.durationMs;
+    }
+    return EMPTY_VISION_RESULT;
+  }
+}
+
+// --- Replay (recorded landmarks, no camera / MediaPipe) ---
+
+export class ReplayInputProvider implements InputProvider {
+  public readonly kind = 'replay';
+  private tracker = new HandTracker();
+  private startedAt = 0;
+  private frameIndex = -1;
+  private durationMs: number;
+
+  constructor(private recording: LandmarkRecording, private loop = true) {
+    const frames = recording.frames;
+    // Pad one frame interval so the last frame is held before looping
+    this.durationMs = frames.length > 0 ? frames[frames.length - 1].t + 33 : 0;
+  }
+
+  public async start() {
+    this.startedAt = performance.now();
+    this.frameIndex = -1;
+    this.tracker.reset();
+  }
+
+  public stop() {
+    this.tracker.reset();
+  }
+
+  public setThresholds(thresholds: GestureThresholds) {
+    this.tracker.setThresholds(thresholds);
+  }
+
+  public poll(now: number): VisionResult {
+    const frames = this.recording.frames;
+    let t = now - this.startedAt;
+    if (this.durationMs <= 0 || (!this.loop && t >= this.durationMs)) return EMPTY_VISION_RESULT;
+
+    t %= this.durationMs;
+    if (this.frameIndex >= 0 && frames[this.frameIndex].t > t) {
+      // Looped around: start tracking from scratch like a fresh session
+      this.frameIndex = -1;
+      this.tracker.reset();
+    }
+
+    // Feed every frame up to now through the same tracker the camera path uses
+    while (this.frameIndex + 1 < frames.length && frames[this.frameIndex + 1].t <= t) {
+      this.frameIndex++;
+      this.tracker.process(toRawHands(frames[this.frameIndex]));
+    }
+    return this.tracker.current;
+  }
+}
+
+export interface InputProviderOptions extends CameraInputOptions {
+  recording?: LandmarkRecording | null;
+}
+
+export const createInputProvider = (kind: InputProviderKind, options: InputProviderOptions = {}): InputProvider => {
+  switch (kind) {
+    case 'camera': return new CameraInputProvider(options);
+    case 'keyboard': return new KeyboardInputProvider();
+    case 'pointer': return new PointerInputProvider();
+    case 'scripted': return new ScriptedInputProvider();
+    case 'replay':
+      if (!options.recording) throw new Error('Replay input needs a landmark recording');
+      return new ReplayInputProvider(options.recording);
+  }
+};
@@ -0,0 +1,86 @@
+
+import { Handedness } from "../types";
+import { RawHand } from "./handTracker";
+import { VisionService } from "./visionService";
+
+// --- Recording Format ---
+// Landmarks are stored as [x, y, z] triples rounded to 4 decimals to keep files small.
+
+export const RECORDING_VERSION = 1;
+
+export interface RecordedHand {
+  handedness: Handedness | null;
+  landmarks: [number, number, number][];
+}
+
+export interface RecordedFrame {
+  t: number; // ms since recording start
+  hands: RecordedHand[];
+}
+
+export interface LandmarkRecording {
+  version: number;
+  recordedAt: string;
+  frames: RecordedFrame[];
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+export const toRawHands = (frame: RecordedFrame): RawHand[] =>
+  frame.hands.map(({ handedness, landmarks }) => ({
+    handedness,
+    landmarks: landmarks.map(([x, y, z]) => ({ x, y, z })),
+  }));
+
+export const parseRecording = (json: string): LandmarkRecording => {
+  const data = JSON.parse(json);
+  if (data?.version !== RECORDING_VERSION || !Array.isArray(data.frames)) {
+    throw new Error(`Unsupported landmark recording (version ${data?.version})`);
+  }
+  return data as LandmarkRecording;
+};
+
+// --- Recorder ---
+
+// Captures the raw landmark stream from VisionService while recording
+export class LandmarkRecorder {
+  private frames: RecordedFrame[] = [];
+  private startedAt = 0;
+  private unsubscribe: (() => void) | null = null;
+
+  public get isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  public start() {
+    if (this.unsubscribe) return;
+    this.frames = [];
+    this.startedAt = performance.now();
+    this.unsubscribe = VisionService.getInstance().onFrame((hands, timestamp) => {
+      this.frames.push({
+        t: Math.round(timestamp - this.startedAt),
+        hands: hands.map(h => ({
+          handedness: h.handedness,
+          landmarks: h.landmarks.map(p => [round(p.x), round(p.y), round(p.z)] as [number, number, number]),
+        })),
+      });
+    });
+  }
+
+  public stop(): LandmarkRecording {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    return { version: RECORDING_VERSION, recordedAt: new Date().toISOString(), frames: this.frames };
+  }
+}
+
+export const downloadRecording = (recording: LandmarkRecording) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(blob);
+  a.download = `landmarks-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(a.href);
+};
@@ -0,0 +1,188 @@
+
+import { HandSlot, MotionGesture, VisionResult } from "../types";
+
+export interface MotionDetectorOptions {
+  windowMs: number; // Trajectory history kept per hand
+  swipeMs: number; // A swipe must cover swipeDistance within this time
+  swipeDistance: number; // Fraction of the frame
+  swipeStraightness: number; // Main axis travel vs cross axis travel
+  waveReversals: number; // Direction changes needed for a wave
+  waveAmplitude: number; // Smallest swing that counts as a reversal
+  circleTurns: number; // Fraction of a full turn around the path's center
+  circleMinRadius: number; // Fraction of the frame
+  cooldownMs: number; // Quiet time after a motion gesture fires
+}
+
+export interface MotionEvent {
+  gesture: MotionGesture;
+  slot: HandSlot;
+  timestamp: number;
+}
+
+export type MotionListener = (event: MotionEvent) => void;
+
+export const DEFAULT_MOTION_OPTIONS: MotionDetectorOptions = {
+  windowMs: 1500,
+  swipeMs: 400,
+  swipeDistance: 0.25,
+  swipeStraightness: 2,
+  waveReversals: 3,
+  waveAmplitude: 0.04,
+  circleTurns: 0.85,
+  circleMinRadius: 0.05,
+  cooldownMs: 800,
+};
+
+const WRIST = 0;
+const INDEX_TIP = 8;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Sample {
+  t: number;
+  wrist: Point;
+  tip: Point;
+}
+
+interface Trail {
+  samples: Sample[];
+  cooldownUntil: number;
+}
+
+// Mirrored so "right" means the user's right, like in a mirror
+const toPoint = (p: { x: number, y: number }): Point => ({ x: 1 - p.x, y: p.y });
+
+// Direction changes of a 1D signal, ignoring wiggles smaller than `amplitude`
+const countReversals = (values: number[], amplitude: number): number => {
+  let reversals = 0;
+  let dir = 0;
+  let extreme = values[0];
+  for (const v of values) {
+    if (dir === 0) {
+      if (Math.abs(v - values[0]) > amplitude) {
+        dir = Math.sign(v - values[0]);
+        extreme = v;
+      }
+    } else if ((v - extreme) * dir > 0) {
+      extreme = v;
+    } else if ((extreme - v) * dir > amplitude) {
+      reversals++;
+      dir = -dir;
+      extreme = v;
+    }
+  }
+  return reversals;
+};
+
+const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+// Recognizes swipes, circles and waves from wrist and fingertip trajectories
+export class MotionDetector {
+  private options: MotionDetectorOptions;
+  private listeners = new Set<MotionListener>();
+  private trails: Record<HandSlot, Trail> = {
+    0: { samples: [], cooldownUntil: 0 },
+    1: { samples: [], cooldownUntil: 0 },
+  };
+
+  constructor(options: Partial<MotionDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_MOTION_OPTIONS, ...options };
+  }
+
+  public subscribe(listener: MotionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public reset() {
+    ([0, 1] as HandSlot[]).forEach(slot => {
+      this.trails[slot] = { samples: [], cooldownUntil: 0 };
+    });
+  }
+
+  public update(result: VisionResult, now: number = performance.now()) {
+    ([0, 1] as HandSlot[]).forEach(slot => {
+      const trail = this.trails[slot];
+      const hand = result.hands.find(h => h.slot === slot);
+      // Synthetic inputs have no landmarks and can't make motion gestures
+      if (!hand || hand.landmarks.length <= INDEX_TIP) {
+        trail.samples = [];
+        return;
+      }
+
+      // Called every render frame, but the result only changes when a new detection arrives;
+      // repeats are skipped so the sample counts below count detections, not frames
+      const wrist = toPoint(hand.landmarks[WRIST]);
+      const tip = toPoint(hand.landmarks[INDEX_TIP]);
+      const last = trail.samples[trail.samples.length - 1];
+      if (last && samePoint(last.wrist, wrist) && samePoint(last.tip, tip)) return;
+
+      trail.samples.push({ t: now, wrist, tip });
+      while (trail.samples.length > 0 && now - trail.samples[0].t > this.options.windowMs) {
+        trail.samples.shift();
+      }
+      if (now < trail.cooldownUntil) return;
+
+      const gesture = this.detectCircle(trail.samples) ?? this.detectWave(trail.samples) ?? this.detectSwipe(trail.samples, now);
+      if (gesture) {
+        trail.samples = [];
+        trail.cooldownUntil = now + this.options.cooldownMs;
+        this.listeners.forEach(listener => listener({ gesture, slot, timestamp: now }));
+      }
+    });
+  }
+
+  // Fast, straight wrist movement over the last few hundred ms
+  private detectSwipe(samples: Sample[], now: number): MotionGesture | null {
+    const { swipeMs, swipeDistance, swipeStraightness } = this.options;
+    const recent = samples.filter(s => now - s.t <= swipeMs);
+    if (recent.length < 3) return null;
+
+    const dx = recent[recent.length - 1].wrist.x - recent[0].wrist.x;
+    const dy = recent[recent.length - 1].wrist.y - recent[0].wrist.y;
+    if (Math.hypot(dx, dy) < swipeDistance) return null;
+
+    if (Math.abs(dx) >= Math.abs(dy) * swipeStraightness) return dx > 0 ? 'Swipe_Right' : 'Swipe_Left';
+    if (Math.abs(dy) >= Math.abs(dx) * swipeStraightness) return dy > 0 ? 'Swipe_Down' : 'Swipe_Up';
+    return null;
+  }
+
+  // Side-to-side wrist motion with several direction changes
+  private detectWave(samples: Sample[]): MotionGesture | null {
+    if (samples.length < 10) return null;
+    const xs = samples.map(s => s.wrist.x);
+    const ys = samples.map(s => s.wrist.y);
+    if (range(ys) > range(xs)) return null;
+    return countReversals(xs, this.options.waveAmplitude) >= this.options.waveReversals ? 'Wave' : null;
+  }
+
+  // Fingertip sweeping (almost) a full turn around a roughly constant radius
+  private detectCircle(samples: Sample[]): MotionGesture | null {
+    if (samples.length < 15) return null;
+    const points = samples.map(s => s.tip);
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+
+    const radii = points.map(p => Math.hypot(p.x - cx, p.y - cy));
+    const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+    if (meanRadius < this.options.circleMinRadius) return null;
+    // A line or zigzag has points passing close to its center
+    if (radii.some(r => r < meanRadius * 0.4)) return null;
+
+    let turned = 0;
+    for (let i = 1; i < points.length; i++) {
+      let delta = Math.atan2(points[i].y - cy, points[i].x - cx) - Math.atan2(points[i - 1].y - cy, points[i - 1].x - cx);
+      if (delta > Math.PI) delta -= Math.PI * 2;
+      if (delta < -Math.PI) delta += Math.PI * 2;
+      turned += delta;
+    }
+    return Math.abs(turned) >= Math.PI * 2 * this.options.circleTurns ? 'Circle' : null;
+  }
+}
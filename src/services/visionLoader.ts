@@ -0,0 +1,202 @@
+
+import { FaceLandmarker, FilesetResolver, HandLandmarker, ImageSegmenter } from "@mediapipe/tasks-vision";
+
+// --- ASSET LOADING ---
+
+// Default location of the self-hosted runtime (see mediapipeAssets() in vite.config.ts)
+export const DEFAULT_ASSET_BASE = import.meta.env.VITE_MEDIAPIPE_BASE || `${import.meta.env.BASE_URL}mediapipe`;
+const HAND_MODEL_PATH = "models/hand_landmarker.task";
+const FACE_MODEL_PATH = "models/face_landmarker.task";
+const SEGMENTER_MODEL_PATH = "models/selfie_segmenter.tflite";
+
+export type VisionLoadStage = 'manifest' | 'runtime' | 'model' | 'ready';
+
+export interface VisionLoadProgress {
+  stage: VisionLoadStage;
+  progress: number; // 0..1 across the whole load
+}
+
+export type VisionLoadErrorCode = 'VERSION_MISMATCH' | 'RUNTIME_FAILED' | 'MODEL_FAILED' | 'INIT_FAILED';
+
+export class VisionLoadError extends Error {
+  public readonly code: VisionLoadErrorCode;
+
+  constructor(code: VisionLoadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'VisionLoadError';
+    this.code = code;
+  }
+}
+
+// Download the model ourselves so we can report byte-level progress
+const fetchWithProgress = async (url: string, onChunk: (fraction: number) => void): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  if (!response.body || !total) {
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    onChunk(1);
+    return buffer;
+  }
+
+  // Content-Length is the encoded size: with gzip/br the body decodes to more bytes,
+  // so it only drives the progress bar and the chunks are joined once complete
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onChunk(Math.min(1, received / total));
+  }
+
+  const data = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+};
+
+type VisionFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// One runtime per worker, shared by the hand and (optional) face landmarkers
+let runtime: Promise<VisionFileset> | null = null;
+
+// Version check, then the wasm runtime
+const loadRuntime = (base: string, report: (stage: VisionLoadStage, progress: number) => void): Promise<VisionFileset> => {
+  if (!runtime) {
+    runtime = (async () => {
+      // 1. Version check: served runtime must match the bundled JS API
+      report('manifest', 0);
+      let servedVersion: string;
+      try {
+        const res = await fetch(`${base}/manifest.json`);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        servedVersion = (await res.json()).version;
+      } catch (e) {
+        throw new VisionLoadError('RUNTIME_FAILED', `Could not read MediaPipe manifest from ${base}`, { cause: e });
+      }
+      if (servedVersion !== __MEDIAPIPE_VERSION__) {
+        throw new VisionLoadError(
+          'VERSION_MISMATCH',
+          `MediaPipe runtime ${servedVersion} does not match @mediapipe/tasks-vision ${__MEDIAPIPE_VERSION__}`
+        );
+      }
+
+      // 2. Wasm runtime
+      report('runtime', 0.05);
+      try {
+        return await FilesetResolver.forVisionTasks(`${base}/wasm`, true);
+      } catch (e) {
+        throw new VisionLoadError('RUNTIME_FAILED', 'Could not load the MediaPipe wasm runtime', { cause: e });
+      }
+    })();
+    runtime.catch(() => { runtime = null; });
+  }
+  return runtime;
+};
+
+// Version check, wasm runtime, model download and landmarker creation.
+// Runs inside the vision worker, so the runtime is loaded as an ES module.
+export const loadHandLandmarker = async (
+  assetBasePath: string,
+  onProgress?: (progress: VisionLoadProgress) => void
+): Promise<HandLandmarker> => {
+  const base = assetBasePath.replace(/\/$/, '');
+  const report = (stage: VisionLoadStage, progress: number) => onProgress?.({ stage, progress });
+  const vision = await loadRuntime(base, report);
+
+  // 3. Hand model (bulk of the download)
+  report('model', 0.15);
+  let modelBuffer: Uint8Array;
+  try {
+    modelBuffer = await fetchWithProgress(`${base}/${HAND_MODEL_PATH}`, (f) => report('model', 0.15 + f * 0.75));
+  } catch (e) {
+    throw new VisionLoadError('MODEL_FAILED', 'Could not download the hand landmark model', { cause: e });
+  }
+
+  // 4. Landmarker: GPU where OffscreenCanvas WebGL is available, CPU otherwise
+  const create = (delegate: "GPU" | "CPU") => HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetBuffer: modelBuffer,
+      delegate
+    },
+    runningMode: "VIDEO",
+    numHands: 2
+  });
+  let landmarker: HandLandmarker;
+  try {
+    landmarker = await create("GPU").catch(() => create("CPU"));
+  } catch (e) {
+    throw new VisionLoadError('INIT_FAILED', 'Could not start the hand tracker', { cause: e });
+  }
+  report('ready', 1);
+  console.log(`MediaPipe HandLandmarker ${__MEDIAPIPE_VERSION__} loaded from ${base}`);
+  return landmarker;
+};
+
+// Face landmarks + blendshapes for head tracking. Loaded on demand, after the hand
+// tracker, so it reuses the runtime that is already there.
+export const loadFaceLandmarker = async (assetBasePath: string): Promise<FaceLandmarker> => {
+  const base = assetBasePath.replace(/\/$/, '');
+  const vision = await loadRuntime(base, () => {});
+
+  let modelBuffer: Uint8Array;
+  try {
+    modelBuffer = await fetchWithProgress(`${base}/${FACE_MODEL_PATH}`, () => {});
+  } catch (e) {
+    throw new VisionLoadError('MODEL_FAILED', 'Could not download the face landmark model', { cause: e });
+  }
+
+  const create = (delegate: "GPU" | "CPU") => FaceLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetBuffer: modelBuffer,
+      delegate
+    },
+    runningMode: "VIDEO",
+    numFaces: 1,
+    outputFaceBlendshapes: true
+  });
+  try {
+    const landmarker = await create("GPU").catch(() => create("CPU"));
+    console.log(`MediaPipe FaceLandmarker ${__MEDIAPIPE_VERSION__} loaded from ${base}`);
+    return landmarker;
+  } catch (e) {
+    throw new VisionLoadError('INIT_FAILED', 'Could not start the face tracker', { cause: e });
+  }
+};
+
+// Person/background confidence mask for the selfie cutout. Loaded on demand like the face model.
+export const loadSelfieSegmenter = async (assetBasePath: string): Promise<ImageSegmenter> => {
+  const base = assetBasePath.replace(/\/$/, '');
+  const vision = await loadRuntime(base, () => {});
+
+  let modelBuffer: Uint8Array;
+  try {
+    modelBuffer = await fetchWithProgress(`${base}/${SEGMENTER_MODEL_PATH}`, () => {});
+  } catch (e) {
+    throw new VisionLoadError('MODEL_FAILED', 'Could not download the selfie segmentation model', { cause: e });
+  }
+
+  const create = (delegate: "GPU" | "CPU") => ImageSegmenter.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetBuffer: modelBuffer,
+      delegate
+    },
+    runningMode: "VIDEO",
+    outputConfidenceMasks: true,
+    outputCategoryMask: false
+  });
+  try {
+    const segmenter = await create("GPU").catch(() => create("CPU"));
+    console.log(`MediaPipe ImageSegmenter ${__MEDIAPIPE_VERSION__} loaded from ${base}`);
+    return segmenter;
+  } catch (e) {
+    throw new VisionLoadError('INIT_FAILED', 'Could not start the selfie segmenter', { cause: e });
+  }
+};
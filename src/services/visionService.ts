@@ -1,12 +1,44 @@
 
-import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
+import { EMPTY_VISION_RESULT, HeadPose, SegmentationMask, VisionResult } from "../types";
+import { RawHand } from "./handTracker";
+import { DEFAULT_GESTURE_THRESHOLDS, GestureThresholds } from "../utils/gestures";
+import { DEFAULT_ASSET_BASE, VisionLoadError, VisionLoadProgress } from "./visionLoader";
+import { VisionWorkerRequest, VisionWorkerResponse } from "../workers/visionProtocol";
 
+export { VisionLoadError } from "./visionLoader";
+export type { VisionLoadErrorCode, VisionLoadProgress, VisionLoadStage } from "./visionLoader";
+
+export interface VisionInitOptions {
+  assetBasePath?: string;
+  onProgress?: (progress: VisionLoadProgress) => void;
+  detectionFps?: number;
+}
+
+// Inference rate, independent from the render rate
+const DEFAULT_DETECTION_FPS = 30;
+
+// Raw landmark stream for recording (fires once per processed camera frame)
+export type VisionFrameListener = (hands: RawHand[], timestamp: number) => void;
+
+// Main-thread facade over the vision worker. detect() never blocks: it ships the
+// current video frame to the worker when one is due and returns the latest result.
 export class VisionService {
   private static instance: VisionService;
-  private handLandmarker: HandLandmarker | null = null;
-  private runningMode: "IMAGE" | "VIDEO" = "VIDEO";
+  private worker: Worker | null = null;
+  private ready = false;
+  private loading: Promise<void> | null = null;
   private video: HTMLVideoElement | null = null;
   private lastVideoTime = -1;
+  private lastSentAt = -Infinity;
+  private frameInFlight = false;
+  private detectionIntervalMs = 1000 / DEFAULT_DETECTION_FPS;
+  private latest: VisionResult = EMPTY_VISION_RESULT;
+  private thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS;
+  private faceTracking = false;
+  private latestHead: HeadPose | null = null;
+  private segmentation = false;
+  private latestMask: SegmentationMask | null = null;
+  private frameListeners = new Set<VisionFrameListener>();
 
   private constructor() {}
 
@@ -17,80 +49,161 @@ export class VisionService {
     return VisionService.instance;
   }
 
-  public async initialize() {
-    if (this.handLandmarker) return;
-
-    try {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-      );
-
-      this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-          delegate: "GPU"
-        },
-        runningMode: this.runningMode,
-        numHands: 1
+  public initialize(options: VisionInitOptions = {}): Promise<void> {
+    if (options.detectionFps) this.setDetectionRate(options.detectionFps);
+    if (this.ready) return Promise.resolve();
+    // Share one in-flight load between callers (StrictMode mounts twice)
+    if (!this.loading) {
+      this.loading = this.load(options).catch((e) => {
+        this.loading = null;
+        this.worker?.terminate();
+        this.worker = null;
+        throw e;
       });
-      console.log("MediaPipe HandLandmarker loaded");
-    } catch (e) {
-      console.error("Error initializing MediaPipe:", e);
-      throw e;
     }
+    return this.loading;
+  }
+
+  private load({ assetBasePath = DEFAULT_ASSET_BASE, onProgress }: VisionInitOptions): Promise<void> {
+    const worker = new Worker(new URL('../workers/visionWorker.ts', import.meta.url), { type: 'module' });
+    this.worker = worker;
+
+    return new Promise((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<VisionWorkerResponse>) => {
+        const message = e.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.progress);
+            break;
+          case 'ready':
+            this.ready = true;
+            resolve();
+            break;
+          case 'error':
+            reject(new VisionLoadError(message.code, message.message));
+            break;
+          case 'result':
+            this.handleResult(message.hands, message.result, message.head, message.timestamp);
+            break;
+          case 'skipped':
+            this.frameInFlight = false;
+            break;
+          case 'mask':
+            if (this.video && this.segmentation) this.latestMask = message.mask;
+            break;
+          case 'feature-error':
+            console.warn(`Optional vision feature "${message.feature}" unavailable:`, message.message);
+            break;
+        }
+      };
+      worker.onerror = (e) => {
+        // The frame being processed will never be answered; let the next one go out
+        this.frameInFlight = false;
+        reject(new VisionLoadError('RUNTIME_FAILED', `Vision worker failed: ${e.message}`));
+      };
+
+      // Resolve against the page so the worker fetches from the same place
+      const base = new URL(assetBasePath, window.location.href).href;
+      this.post({ type: 'init', assetBasePath: base });
+      this.post({ type: 'thresholds', thresholds: this.thresholds });
+      this.post({ type: 'face', enabled: this.faceTracking });
+      this.post({ type: 'segmentation', enabled: this.segmentation });
+    });
   }
 
   public start(videoElement: HTMLVideoElement) {
     this.video = videoElement;
   }
 
-  public detect(): { gesture: string; isPresent: boolean } {
-    // Ensure HandLandmarker is loaded and video element exists
-    if (!this.handLandmarker || !this.video) return { gesture: 'None', isPresent: false };
+  public stop() {
+    this.video = null;
+    this.lastVideoTime = -1;
+    this.latest = EMPTY_VISION_RESULT;
+    this.latestHead = null;
+    this.latestMask = null;
+    this.post({ type: 'reset' });
+  }
+
+  public setDetectionRate(fps: number) {
+    this.detectionIntervalMs = 1000 / Math.max(1, fps);
+  }
+
+  // Personal classification thresholds (see calibration)
+  public setThresholds(thresholds: GestureThresholds) {
+    this.thresholds = thresholds;
+    this.post({ type: 'thresholds', thresholds });
+  }
+
+  // Head tracking for the parallax camera; the face model is only loaded once enabled
+  public setFaceTracking(enabled: boolean) {
+    this.faceTracking = enabled;
+    if (!enabled) this.latestHead = null;
+    this.post({ type: 'face', enabled });
+  }
+
+  // Person mask for the selfie cutout; the segmentation model is only loaded once enabled
+  public setSegmentation(enabled: boolean) {
+    this.segmentation = enabled;
+    if (!enabled) this.latestMask = null;
+    this.post({ type: 'segmentation', enabled });
+  }
+
+  public onFrame(listener: VisionFrameListener): () => void {
+    this.frameListeners.add(listener);
+    return () => {
+      this.frameListeners.delete(listener);
+    };
+  }
+
+  public detect(): VisionResult {
+    // Ensure the worker is ready and video element exists
+    if (!this.ready || !this.video) return EMPTY_VISION_RESULT;
 
     // CRITICAL: Ensure video has valid dimensions before processing to avoid MediaPipe crash
     if (this.video.videoWidth === 0 || this.video.videoHeight === 0) {
-      return { gesture: 'None', isPresent: false };
+      return EMPTY_VISION_RESULT;
     }
 
-    let startTimeMs = performance.now();
-    
-    if (this.video.currentTime !== this.lastVideoTime) {
+    const now = performance.now();
+    const due = now - this.lastSentAt >= this.detectionIntervalMs;
+
+    // One frame in flight at a time: a slow inference drops frames instead of queueing them
+    if (due && !this.frameInFlight && this.video.currentTime !== this.lastVideoTime) {
       this.lastVideoTime = this.video.currentTime;
-      
-      const results = this.handLandmarker.detectForVideo(this.video, startTimeMs);
-      
-      if (results.landmarks && results.landmarks.length > 0) {
-        // Simple gesture logic
-        const landmarks = results.landmarks[0];
-        const wrist = landmarks[0];
-
-        // A simple "Is Fist" check
-        // We compare the distance of fingertips to wrist vs PIP joints (knuckles) to wrist.
-        const tips = [8, 12, 16, 20]; // Index, Middle, Ring, Pinky tips
-        const pips = [6, 10, 14, 18]; // Corresponding PIP joints
-        
-        let curledCount = 0;
-        
-        for(let i=0; i<4; i++) {
-           // If tip is closer to wrist than the PIP joint, it is curled.
-           const dTip = Math.hypot(landmarks[tips[i]].x - wrist.x, landmarks[tips[i]].y - wrist.y);
-           const dPip = Math.hypot(landmarks[pips[i]].x - wrist.x, landmarks[pips[i]].y - wrist.y);
-           
-           // Allow slight margin
-           if (dTip < dPip * 1.2) { 
-             curledCount++;
-           }
-        }
-        
-        // If 3 or more fingers are curled, consider it a Fist
-        if (curledCount >= 3) {
-          return { gesture: 'Closed_Fist', isPresent: true };
-        } else {
-          return { gesture: 'Open_Palm', isPresent: true };
-        }
-      }
+      this.lastSentAt = now;
+      this.frameInFlight = true;
+      createImageBitmap(this.video)
+        .then((frame) => this.post({ type: 'frame', frame, timestamp: now }, [frame]))
+        .catch((e) => {
+          this.frameInFlight = false;
+          console.warn("Could not capture video frame", e);
+        });
     }
-    return { gesture: 'None', isPresent: false };
+
+    // Latest result from the worker (repeated until a newer one arrives)
+    return this.latest;
+  }
+
+  // Latest head estimate, updated alongside detect() (null while face tracking is off)
+  public detectHead(): HeadPose | null {
+    return this.video ? this.latestHead : null;
+  }
+
+  // Latest person mask (null while segmentation is off or before the first one arrives)
+  public detectMask(): SegmentationMask | null {
+    return this.video ? this.latestMask : null;
+  }
+
+  private handleResult(hands: RawHand[], result: VisionResult, head: HeadPose | null, timestamp: number) {
+    this.frameInFlight = false;
+    // Late result from a stopped session
+    if (!this.video) return;
+    this.frameListeners.forEach(listener => listener(hands, timestamp));
+    this.latest = result;
+    this.latestHead = this.faceTracking ? head : null;
+  }
+
+  private post(message: VisionWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
   }
 }
@@ -4,15 +4,102 @@ export enum AppMode {
   SPHERE = 'SPHERE',
 }
 
+export type Gesture =
+  | 'None'
+  | 'Closed_Fist'
+  | 'Open_Palm'
+  | 'Pointing'
+  | 'Victory'
+  | 'Thumb_Up'
+  | 'Pinch'
+  | 'ILoveYou';
+
+// Gestures recognized from hand movement over time rather than a single frame
+export type MotionGesture =
+  | 'Swipe_Left'
+  | 'Swipe_Right'
+  | 'Swipe_Up'
+  | 'Swipe_Down'
+  | 'Circle'
+  | 'Wave';
+
+export type Handedness = 'Left' | 'Right';
+
+// Normalized image-space landmark as produced by MediaPipe (x/y in 0..1)
+export interface HandLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// true = finger extended, false = curled
+export interface FingerStates {
+  thumb: boolean;
+  index: boolean;
+  middle: boolean;
+  ring: boolean;
+  pinky: boolean;
+}
+
+// Stable tracking slot so the same hand keeps its identity across frames
+export type HandSlot = 0 | 1;
+
+export interface HandState {
+  slot: HandSlot;
+  gesture: Gesture;
+  confidence: number; // 0..1
+  handedness: Handedness | null;
+  fingers: FingerStates;
+  landmarks: HandLandmark[];
+}
+
 export interface VisionResult {
-  gesture: string;
+  // Primary hand (lowest tracked slot)
+  gesture: Gesture;
+  confidence: number; // 0..1
+  handedness: Handedness | null;
+  fingers: FingerStates | null;
   isPresent: boolean;
+  // Every tracked hand, ordered by slot
+  hands: HandState[];
+}
+
+// Viewer's head, estimated from face landmarks (optional, see head parallax)
+export interface HeadPose {
+  x: number; // -1 (viewer's left) .. 1 (viewer's right)
+  y: number; // -1 (down) .. 1 (up)
+  smile: number; // 0..1
 }
 
+// Person mask from the selfie segmenter, row-major from the top: 0 = background, 255 = person
+export interface SegmentationMask {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export const EMPTY_VISION_RESULT: VisionResult = {
+  gesture: 'None',
+  confidence: 0,
+  handedness: null,
+  fingers: null,
+  isPresent: false,
+  hands: [],
+};
+
+// Builds the result from per-hand states, taking the first hand as primary
+export const toVisionResult = (hands: HandState[]): VisionResult => {
+  if (hands.length === 0) return EMPTY_VISION_RESULT;
+  const sorted = [...hands].sort((a, b) => a.slot - b.slot);
+  const { gesture, confidence, handedness, fingers } = sorted[0];
+  return { gesture, confidence, handedness, fingers, isPresent: true, hands: sorted };
+};
+
 export interface Gift {
   id: string;
   message: string;
   sticker: string;
+  drawing?: string; // Air-written strokes, see utils/airWriting
 }
 
 export const STICKERS = ["🎅", "🎄", "🦌", "⛄", "🎁", "❄️", "🔔", "🧸", "💖", "🌟"];
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Stroke, decodeDrawing, encodeDrawing, resampleStroke, strokeLength } from './airWriting';
+
+// One grid step of the 9-bit encoding
+const STEP = 1 / 511;
+
+const expectClose = (actual: Stroke[], expected: Stroke[]) => {
+  expect(actual.map(stroke => stroke.length)).toEqual(expected.map(stroke => stroke.length));
+  actual.forEach((stroke, s) => stroke.forEach(([x, y], p) => {
+    expect(Math.abs(x - expected[s][p][0])).toBeLessThanOrEqual(STEP / 2);
+    expect(Math.abs(y - expected[s][p][1])).toBeLessThanOrEqual(STEP / 2);
+  }));
+};
+
+describe('drawing share codes', () => {
+  it('round-trips strokes to within half a grid step', () => {
+    const strokes: Stroke[] = [
+      [[0, 0], [0.5, 0.25], [1, 1]],
+      [[0.123, 0.987], [0.333, 0.666]],
+      Array.from({ length: 50 }, (_, i): [number, number] => [i / 49, 0.5 + 0.4 * Math.sin(i / 5)]),
+    ];
+    expectClose(decodeDrawing(encodeDrawing(strokes)), strokes);
+  });
+
+  it('is stable once quantized', () => {
+    const code = encodeDrawing([[[0.2, 0.8], [0.7, 0.1]]]);
+    expect(encodeDrawing(decodeDrawing(code))).toBe(code);
+  });
+
+  it('clamps points outside the unit box', () => {
+    expect(decodeDrawing(encodeDrawing([[[-0.5, 1.5]]]))).toEqual([[[0, 1]]]);
+  });
+
+  it('drops empty strokes', () => {
+    expect(encodeDrawing([[], [[0, 0]], []])).toBe('AAA');
+    expect(decodeDrawing('')).toEqual([]);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(decodeDrawing('AA*')).toEqual([]);
+  });
+
+  // Share links are JSON, so the field can hold anything
+  it('rejects values that are not strings', () => {
+    [1, null, {}, ['AAA']].forEach(value => {
+      expect(decodeDrawing(value as unknown as string)).toEqual([]);
+    });
+  });
+});
+
+describe('resampleStroke', () => {
+  it('places one point per spacing along the whole length', () => {
+    const stroke: Stroke = [[0, 0], [0.3, 0.4], [0.3, 1]];
+    expect(strokeLength(stroke)).toBeCloseTo(1.1, 10);
+    const points = resampleStroke(stroke, 0.1);
+    expect(points.length).toBeLessThanOrEqual(Math.floor(1.1 / 0.1) + 1);
+    expect(points.length).toBeGreaterThanOrEqual(11);
+    expect(points[0]).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,108 @@
+// --- Air-Writing Strokes ---
+// Polylines in a normalized 0..1 box (x right, y down), as seen in a mirror.
+
+export type StrokePoint = [number, number];
+export type Stroke = StrokePoint[];
+
+// Keeps share links short: simplified drawings rarely get near this
+export const MAX_DRAWING_POINTS = 600;
+
+const distToSegment = ([px, py]: StrokePoint, [ax, ay]: StrokePoint, [bx, by]: StrokePoint) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+// Ramer-Douglas-Peucker: drop points closer than `epsilon` to the simplified line
+export const simplifyStroke = (stroke: Stroke, epsilon = 0.004): Stroke => {
+  if (stroke.length < 3) return stroke;
+  let maxDist = 0;
+  let index = 0;
+  for (let i = 1; i < stroke.length - 1; i++) {
+    const d = distToSegment(stroke[i], stroke[0], stroke[stroke.length - 1]);
+    if (d > maxDist) {
+      maxDist = d;
+      index = i;
+    }
+  }
+  if (maxDist <= epsilon) return [stroke[0], stroke[stroke.length - 1]];
+  const left = simplifyStroke(stroke.slice(0, index + 1), epsilon);
+  const right = simplifyStroke(stroke.slice(index), epsilon);
+  return [...left.slice(0, -1), ...right];
+};
+
+// Scale and center into the unit box (keeping proportions) so the whole grid resolution is used
+export const normalizeDrawing = (strokes: Stroke[]): Stroke[] => {
+  const points = strokes.flat();
+  if (points.length === 0) return [];
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1e-6);
+  const offsetX = (1 - (Math.max(...xs) - minX) / size) / 2;
+  const offsetY = (1 - (Math.max(...ys) - minY) / size) / 2;
+  return strokes.map(stroke => stroke.map(([x, y]) => [(x - minX) / size + offsetX, (y - minY) / size + offsetY]));
+};
+
+// --- Compact Encoding ---
+// Each point is 9 bits x + 9 bits y = 3 URL-safe base64 characters; strokes are joined by '.'
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const GRID = 511;
+
+const quantize = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * GRID);
+
+export const encodeDrawing = (strokes: Stroke[]): string =>
+  strokes
+    .filter(stroke => stroke.length > 0)
+    .map(stroke => stroke.map(([x, y]) => {
+      const bits = (quantize(x) << 9) | quantize(y);
+      return ALPHABET[(bits >> 12) & 63] + ALPHABET[(bits >> 6) & 63] + ALPHABET[bits & 63];
+    }).join(''))
+    .join('.');
+
+// Codes come from share links, so anything that isn't a well-formed string decodes to nothing
+export const decodeDrawing = (code: string): Stroke[] => {
+  if (typeof code !== 'string' || !/^[A-Za-z0-9_-]*(\.[A-Za-z0-9_-]*)*$/.test(code)) return [];
+  return code.split('.')
+    .filter(part => part.length >= 3)
+    .map(part => {
+      const stroke: Stroke = [];
+      for (let i = 0; i + 2 < part.length; i += 3) {
+        const bits = (ALPHABET.indexOf(part[i]) << 12) | (ALPHABET.indexOf(part[i + 1]) << 6) | ALPHABET.indexOf(part[i + 2]);
+        stroke.push([(bits >> 9) / GRID, (bits & GRID) / GRID]);
+      }
+      return stroke;
+    });
+};
+
+export const strokeLength = (stroke: Stroke): number => {
+  let length = 0;
+  for (let i = 1; i < stroke.length; i++) {
+    length += Math.hypot(stroke[i][0] - stroke[i - 1][0], stroke[i][1] - stroke[i - 1][1]);
+  }
+  return length;
+};
+
+// Evenly spaced points along a stroke, for drawing it as a dotted light trail
+export const resampleStroke = (stroke: Stroke, spacing: number): Stroke => {
+  if (stroke.length < 2) return stroke;
+  const result: Stroke = [stroke[0]];
+  let carry = 0;
+  for (let i = 1; i < stroke.length; i++) {
+    const [ax, ay] = stroke[i - 1];
+    const [bx, by] = stroke[i];
+    const length = Math.hypot(bx - ax, by - ay);
+    let d = spacing - carry;
+    while (d <= length) {
+      const t = d / length;
+      result.push([ax + (bx - ax) * t, ay + (by - ay) * t]);
+      d += spacing;
+    }
+    carry = length - (d - spacing);
+  }
+  return result;
+};
@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { EffectSettings } from '../services/effectSettings';
+
+// --- Palm Force Field ---
+// Each palm is a ray from the camera through the hand, so "near the palm" matches what
+// the viewer sees regardless of depth. Points within the radius of that ray are pushed
+// away from it (repel) or pulled toward it (attract), strongest right at the ray.
+// Snow is pushed here on the CPU; the tree lights get the same field in their shader.
+
+export const FORCE_FIELD = {
+  snowSpeed: 30, // Sideways speed of snowflakes at full strength (units/s)
+  spring: 14, // How fast the tree field follows a palm arriving or leaving
+  damping: 5, // Low enough that the lights overshoot a little and bounce back
+};
+
+const closest = new THREE.Vector3();
+
+// Adds `scale` × the field's push to `out` (xyz per point). Rays must be in the points' local space.
+export const accumulateForce = (
+  positions: Float32Array,
+  out: Float32Array,
+  count: number,
+  rays: THREE.Ray[],
+  settings: EffectSettings,
+  scale: number
+) => {
+  if (settings.forceMode === 'off' || rays.length === 0) return;
+  const radius = settings.forceRadius;
+  const sign = settings.forceMode === 'repel' ? 1 : -1;
+  const amount = settings.forceStrength * scale;
+
+  for (const ray of rays) {
+    const { origin: o, direction: d } = ray;
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      const px = positions[i3], py = positions[i3 + 1], pz = positions[i3 + 2];
+      // Closest point on the ray, then the offset from it
+      const t = Math.max(0, (px - o.x) * d.x + (py - o.y) * d.y + (pz - o.z) * d.z);
+      closest.copy(d).multiplyScalar(t).add(o);
+      const dx = px - closest.x, dy = py - closest.y, dz = pz - closest.z;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (dist >= radius || dist < 1e-4) continue;
+
+      let falloff = 1 - dist / radius;
+      // Attraction fades out right at the ray so points settle instead of jittering across it
+      if (sign < 0) falloff *= Math.min(1, dist / (radius * 0.2));
+      const push = (sign * amount * falloff) / dist;
+      out[i3] += dx * push;
+      out[i3 + 1] += dy * push;
+      out[i3 + 2] += dz * push;
+    }
+  }
+};
+
+// One palm's share of the tree field: the last ray it was seen on, and a strength that
+// springs toward the setting while the palm is there and back to zero once it's gone
+export interface PalmField {
+  ray: THREE.Ray; // World space
+  amount: number;
+  velocity: number;
+}
+
+export const createPalmField = (): PalmField => ({ ray: new THREE.Ray(), amount: 0, velocity: 0 });
+
+export const stepPalmField = (field: PalmField, target: number, dt: number) => {
+  const { spring, damping } = FORCE_FIELD;
+  field.velocity += ((target - field.amount) * spring - field.velocity * damping) * dt;
+  field.amount += field.velocity * dt;
+  // Settled: exactly zero lets the shader skip this palm
+  if (target === 0 && Math.abs(field.amount) < 1e-3 && Math.abs(field.velocity) < 1e-3) {
+    field.amount = 0;
+    field.velocity = 0;
+  }
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { FORMATION_IDS, nextFormationId } from './geometry';
+
+describe('nextFormationId', () => {
+  it('skips the sphere', () => {
+    expect(nextFormationId('tree')).not.toBe('sphere');
+    expect(nextFormationId('tree')).toBe(FORMATION_IDS.filter(id => id !== 'sphere')[1]);
+  });
+
+  it('stays within the available shapes', () => {
+    const withoutPhoto = FORMATION_IDS.filter(id => id !== 'photo');
+    const last = withoutPhoto[withoutPhoto.length - 1];
+    expect(nextFormationId(last, withoutPhoto)).toBe('tree');
+  });
+
+  it('restarts when the current shape is no longer available', () => {
+    expect(nextFormationId('photo', ['tree', 'heart'])).toBe('tree');
+  });
+});
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { ParticleImage, decodeParticleImage } from './particleImage';
 
 // --- Particle Generation ---
 
@@ -83,6 +84,423 @@ export const generateSpherePositions = (count: number): Float32Array => {
   return positions;
 };
 
+// --- More Formations ---
+// Every generator fills `count` points centered on the origin, about the size of the tree
+// (±8 units), so any formation can morph into any other point-for-point.
+
+const randomSigned = () => Math.random() * 2 - 1;
+
+// Roughly normal, mean 0 / deviation 1 (sum of uniforms)
+const randomGaussian = () => (Math.random() + Math.random() + Math.random() + Math.random() - 2) * 1.7;
+
+const randomPointOnSphere = (target: THREE.Vector3, radius: number) =>
+  target.randomDirection().multiplyScalar(radius);
+
+export const generateHeartPositions = (count: number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const scale = 0.42;
+
+  for (let i = 0; i < count; i++) {
+    const t = Math.random() * Math.PI * 2;
+    // Classic heart curve, x in -16..16
+    const bx = 16 * Math.pow(Math.sin(t), 3);
+    const by = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    // A third of the points trace the outline, the rest fill it in
+    const fill = Math.random() < 0.35 ? 1 : Math.sqrt(Math.random());
+
+    positions[i * 3] = bx * scale * fill;
+    positions[i * 3 + 1] = (by + 2) * scale * fill;
+    positions[i * 3 + 2] = randomSigned() * (1 - fill * 0.7) * 2.5; // Puffier in the middle
+  }
+  return positions;
+};
+
+export const generateStarPositions = (count: number, points = 5): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const outerRadius = 8;
+  const innerRadius = 3.4;
+  const corner = (k: number) => {
+    const radius = k % 2 === 0 ? outerRadius : innerRadius;
+    const angle = (k / (points * 2)) * Math.PI * 2 + Math.PI / 2;
+    return [Math.cos(angle) * radius, Math.sin(angle) * radius];
+  };
+
+  for (let i = 0; i < count; i++) {
+    // Random point in one of the triangles fanning out from the center
+    const k = Math.floor(Math.random() * points * 2);
+    const [ax, ay] = corner(k);
+    const [bx, by] = corner(k + 1);
+    let u = Math.random();
+    let v = Math.random();
+    if (u + v > 1) { u = 1 - u; v = 1 - v; }
+    const x = ax * u + bx * v;
+    const y = ay * u + by * v;
+    const r = Math.hypot(x, y) / outerRadius;
+
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = randomSigned() * (1 - r) * 2;
+  }
+  return positions;
+};
+
+export const generateSnowmanPositions = (count: number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  // Body balls as [centerY, radius], bottom to top
+  const balls = [[-4.4, 3.6], [1.4, 2.7], [5.6, 2.0]];
+  const ballArea = balls.reduce((sum, [, r]) => sum + r * r, 0);
+  const point = new THREE.Vector3();
+
+  for (let i = 0; i < count; i++) {
+    const pick = Math.random();
+    if (pick < 0.88) {
+      // Surface of one ball, chosen by area
+      let roll = (pick / 0.88) * ballArea;
+      const [cy, r] = balls.find(([, radius]) => (roll -= radius * radius) <= 0) ?? balls[0];
+      randomPointOnSphere(point, r * (0.92 + Math.random() * 0.08));
+      point.y += cy;
+    } else if (pick < 0.97) {
+      // Top hat: brim plus crown
+      const angle = Math.random() * Math.PI * 2;
+      const onBrim = Math.random() < 0.4;
+      const r = onBrim ? 1 + Math.random() * 1.1 : 1.2;
+      point.set(Math.cos(angle) * r, onBrim ? 7.3 : 7.3 + Math.random() * 1.8, Math.sin(angle) * r);
+    } else {
+      // Carrot nose, pointing at the viewer
+      const t = Math.random();
+      point.set(randomSigned() * 0.2 * (1 - t), 5.6 + randomSigned() * 0.2 * (1 - t), 2 + t * 1.6);
+    }
+    positions[i * 3] = point.x;
+    positions[i * 3 + 1] = point.y;
+    positions[i * 3 + 2] = point.z;
+  }
+  return positions;
+};
+
+export const generateGalaxyPositions = (count: number, arms = 3): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const maxRadius = 9;
+  const tilt = 0.45; // Lean the disc toward the viewer
+  const cos = Math.cos(tilt);
+  const sin = Math.sin(tilt);
+
+  for (let i = 0; i < count; i++) {
+    const r = Math.pow(Math.random(), 0.7) * maxRadius;
+    const arm = (i % arms) / arms * Math.PI * 2;
+    // Arms wind up with distance and loosen toward the rim
+    const angle = arm + r * 0.55 + randomGaussian() * 0.25 * (1 - r / maxRadius * 0.5);
+    const x = Math.cos(angle) * r;
+    const z = Math.sin(angle) * r;
+    const y = randomGaussian() * 0.35 * (1 - r / maxRadius) + randomGaussian() * 0.05;
+
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y * cos - z * sin;
+    positions[i * 3 + 2] = y * sin + z * cos;
+  }
+  return positions;
+};
+
+export const generateGiftBoxPositions = (count: number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const half = 4.5;
+  const centerY = -1.5;
+
+  for (let i = 0; i < count; i++) {
+    let x: number, y: number, z: number;
+    if (Math.random() < 0.82) {
+      // Box surface: one of six faces, anywhere on it
+      const face = Math.floor(Math.random() * 6);
+      const axis = face % 3;
+      const side = face < 3 ? half : -half;
+      const a = randomSigned() * half;
+      const b = randomSigned() * half;
+      [x, y, z] = axis === 0 ? [side, a, b] : axis === 1 ? [a, side, b] : [a, b, side];
+      y += centerY;
+    } else {
+      // Bow: two loops on the lid
+      const t = Math.random() * Math.PI * 2;
+      const dir = Math.random() < 0.5 ? 1 : -1;
+      x = dir * (1.6 + Math.cos(t) * 1.6);
+      y = centerY + half + 0.2 + Math.abs(Math.sin(t)) * 1.8;
+      z = randomSigned() * 0.4;
+    }
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = z;
+  }
+  return positions;
+};
+
+export const generateBellPositions = (count: number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const top = 5;
+  const mouth = -5;
+  // Narrow crown flaring out to the lip
+  const profile = (y: number) => 1.8 + 4.8 * Math.pow((top - y) / (top - mouth), 2.4);
+  const point = new THREE.Vector3();
+
+  for (let i = 0; i < count; i++) {
+    const pick = Math.random();
+    const angle = Math.random() * Math.PI * 2;
+    if (pick < 0.86) {
+      const y = mouth + Math.random() * (top - mouth);
+      const r = profile(y);
+      point.set(Math.cos(angle) * r, y, Math.sin(angle) * r);
+    } else if (pick < 0.93) {
+      // Clapper hanging just below the mouth
+      randomPointOnSphere(point, 1);
+      point.y += mouth - 0.6;
+    } else {
+      // Hanging loop on top
+      point.set(Math.cos(angle) * 1.2, top + 1.2 + Math.sin(angle) * 1.2, randomSigned() * 0.2);
+    }
+    positions[i * 3] = point.x;
+    positions[i * 3 + 1] = point.y;
+    positions[i * 3 + 2] = point.z;
+  }
+  return positions;
+};
+
+// 5x7 dot-matrix digits, top row first
+const DIGIT_GLYPHS: Record<string, string[]> = {
+  '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  '3': ['11110', '00001', '00001', '01110', '00001', '00001', '11110'],
+  '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+};
+
+export const generateYearPositions = (count: number, year = '2026'): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const cell = 0.8;
+  const digits = year.split('').filter(d => d in DIGIT_GLYPHS);
+  // Lit cells as [column, row] across the whole number, one blank column between digits
+  const cells: [number, number][] = [];
+  digits.forEach((digit, d) => {
+    DIGIT_GLYPHS[digit].forEach((row, r) => {
+      row.split('').forEach((bit, c) => {
+        if (bit === '1') cells.push([d * 6 + c, r]);
+      });
+    });
+  });
+  if (cells.length === 0) return positions;
+  const width = digits.length * 6 - 1;
+
+  for (let i = 0; i < count; i++) {
+    const [c, r] = cells[Math.floor(Math.random() * cells.length)];
+    positions[i * 3] = (c + Math.random() - width / 2) * cell;
+    positions[i * 3 + 1] = (3.5 - r - Math.random()) * cell;
+    positions[i * 3 + 2] = randomSigned() * 0.6;
+  }
+  return positions;
+};
+
+// --- Particle Text ---
+// Text is drawn on an offscreen canvas and the particles pick random lit pixels.
+
+// Fonts with full Vietnamese coverage first; the fallback still gets precomposed glyphs after NFC
+const TEXT_FONT = '"Segoe UI", Roboto, "Noto Sans", "Helvetica Neue", Arial, sans-serif';
+const TEXT_FONT_SIZE = 96; // Raster size in pixels
+const TEXT_MAX_HEIGHT = 12; // World units, so two lines still leave room around them
+const TEXT_LINE_EMS = 7; // Wider lines wrap onto two
+
+// Splits at the space nearest the middle once the text is too wide for one line
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  if (ctx.measureText(text).width <= maxWidth) return [text];
+  const spaces = [...text.matchAll(/ /g)].map(m => m.index!);
+  if (spaces.length === 0) return [text];
+  const middle = text.length / 2;
+  const split = spaces.reduce((best, i) => (Math.abs(i - middle) < Math.abs(best - middle) ? i : best));
+  return [text.slice(0, split), text.slice(split + 1)];
+};
+
+// `fitWidth` is the widest the text may get (world units) and still stay in view
+export const generateTextPositions = (count: number, rawText: string, fitWidth: number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  // Combining marks (typed on some keyboards) become single glyphs so accents sit right
+  const text = rawText.normalize('NFC').replace(/\s+/g, ' ').trim();
+  if (!text || typeof document === 'undefined') return positions;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return positions;
+  const font = `bold ${TEXT_FONT_SIZE}px ${TEXT_FONT}`;
+  ctx.font = font;
+  const lines = wrapText(ctx, text, TEXT_FONT_SIZE * TEXT_LINE_EMS);
+
+  // Tall lines leave room for stacked diacritics (Ỗ, Ặ) above the caps
+  const lineHeight = TEXT_FONT_SIZE * 1.5;
+  const width = Math.ceil(Math.max(...lines.map(line => ctx.measureText(line).width)) + TEXT_FONT_SIZE * 0.5);
+  const height = Math.ceil(lineHeight * lines.length);
+  canvas.width = width;
+  canvas.height = height;
+  ctx.font = font; // Resizing resets the context state
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#fff';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, lineHeight * (i + 0.55)));
+
+  // Lit pixels on a 2px grid, as [x, y] pairs
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const lit: number[] = [];
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      if (data[(y * width + x) * 4 + 3] > 128) lit.push(x, y);
+    }
+  }
+  if (lit.length === 0) return positions;
+
+  const scale = Math.min(fitWidth / width, TEXT_MAX_HEIGHT / height);
+  for (let i = 0; i < count; i++) {
+    const k = Math.floor(Math.random() * (lit.length / 2)) * 2;
+    positions[i * 3] = (lit[k] + Math.random() * 2 - width / 2) * scale;
+    positions[i * 3 + 1] = (height / 2 - lit[k + 1] - Math.random() * 2) * scale;
+    positions[i * 3 + 2] = randomSigned() * 0.6; // Depth jitter so the letters have some body
+  }
+  return positions;
+};
+
+// --- Photo ---
+// Particles spread evenly over the pixels in order, so particle i always lands on the same
+// pixel and its color can be looked up separately. Brighter pixels come forward a little.
+
+const IMAGE_MAX_HEIGHT = 14; // World units
+
+const imagePixel = (i: number, count: number, image: ParticleImage) =>
+  Math.floor(i * image.width * image.height / count);
+
+export const generateImagePositions = (count: number, image: ParticleImage, fitWidth: number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const { width, height, palette, pixels } = image;
+  const cell = Math.min(fitWidth / width, IMAGE_MAX_HEIGHT / height);
+
+  for (let i = 0; i < count; i++) {
+    const p = imagePixel(i, count, image);
+    const [r, g, b] = palette[pixels[p]];
+    positions[i * 3] = ((p % width) + Math.random() - width / 2) * cell;
+    positions[i * 3 + 1] = (height / 2 - Math.floor(p / width) - Math.random()) * cell;
+    positions[i * 3 + 2] = (r * 0.3 + g * 0.59 + b * 0.11 - 0.5) * 1.5 + randomSigned() * 0.2;
+  }
+  return positions;
+};
+
+export const generateImageColors = (count: number, image: ParticleImage): Float32Array => {
+  // The palette is sRGB straight from the canvas; vertex colors are linear like THREE.Color
+  const color = new THREE.Color();
+  const linear = image.palette.map(([r, g, b]) => color.setRGB(r, g, b, THREE.SRGBColorSpace).toArray());
+  const colors = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    colors.set(linear[image.pixels[imagePixel(i, count, image)]], i * 3);
+  }
+  return colors;
+};
+
+// --- Formation Registry ---
+
+export type FormationId = 'tree' | 'sphere' | 'heart' | 'star' | 'snowman' | 'galaxy' | 'gift' | 'bell' | 'year' | 'name' | 'wish' | 'photo';
+
+export interface FormationPalette {
+  main: number; // Most particles
+  accents: number[]; // Sprinkled in between
+}
+
+// What the text and photo formations are built from
+export interface FormationContext {
+  name: string; // Recipient's name
+  wish: string; // Wish currently shown
+  photo: string | null; // Sender's photo, as a particle image code
+  fitWidth: number; // Widest a flat formation may be (world units) to stay in view
+}
+
+export interface Formation {
+  id: FormationId;
+  label: string;
+  generate: (count: number, context: FormationContext) => Float32Array;
+  palette: FormationPalette | null; // null = follow the scene theme
+  colors?: (count: number, context: FormationContext) => Float32Array | null; // Per-particle colors, over the palette
+  starY: number | null; // Height of the glowing star; null hides it
+  flat?: boolean; // Reads from the front only, so auto-rotation settles facing the viewer
+  dependsOn?: (context: FormationContext) => string; // Cache key part for context-built formations
+}
+
+export const FORMATIONS: Formation[] = [
+  { id: 'tree', label: 'Cây thông', generate: generateTreePositions, palette: null, starY: 7.8 },
+  { id: 'sphere', label: 'Quả cầu', generate: generateSpherePositions, palette: null, starY: 0 },
+  {
+    id: 'heart', label: 'Trái tim', generate: generateHeartPositions, starY: null, flat: true,
+    palette: { main: 0xE0115F, accents: [0xFF69B4, 0xFFB6C1, 0xFFFFFF, 0xFF3333] },
+  },
+  {
+    id: 'star', label: 'Ngôi sao', generate: (count) => generateStarPositions(count), starY: null, flat: true,
+    palette: { main: 0xFFD700, accents: [0xFFFFFF, 0xFFF8DC, 0xFF8C00] },
+  },
+  {
+    id: 'snowman', label: 'Người tuyết', generate: generateSnowmanPositions, starY: null,
+    palette: { main: 0xF0F8FF, accents: [0xFF8C00, 0xE0115F, 0x87CEFA, 0xFFD700] },
+  },
+  {
+    id: 'galaxy', label: 'Thiên hà', generate: (count) => generateGalaxyPositions(count), starY: 0,
+    palette: { main: 0x8FA8FF, accents: [0xFFFFFF, 0xFF69B4, 0x9370DB, 0x00FFFF] },
+  },
+  {
+    id: 'gift', label: 'Hộp quà', generate: generateGiftBoxPositions, starY: null,
+    palette: { main: 0xC62828, accents: [0xFFD700, 0xFFF8DC, 0x2E8B57] },
+  },
+  {
+    id: 'bell', label: 'Chuông', generate: generateBellPositions, starY: null,
+    palette: { main: 0xFFD700, accents: [0xFFF8DC, 0xFF8C00, 0xB22222] },
+  },
+  {
+    id: 'year', label: '2026', generate: (count) => generateYearPositions(count), starY: null, flat: true,
+    palette: { main: 0xFFD700, accents: [0xFF3333, 0xFFFFFF, 0x00FFFF] },
+  },
+  {
+    id: 'name', label: 'Tên người nhận', starY: null, flat: true,
+    generate: (count, { name, fitWidth }) => generateTextPositions(count, name || 'Merry Christmas', fitWidth),
+    dependsOn: ({ name, fitWidth }) => `${name}|${fitWidth.toFixed(1)}`,
+    palette: { main: 0xFFD700, accents: [0xFFFFFF, 0xFFF8DC, 0xFF3333] },
+  },
+  {
+    id: 'wish', label: 'Lời chúc', starY: null, flat: true,
+    generate: (count, { wish, fitWidth }) => generateTextPositions(count, wish, fitWidth),
+    dependsOn: ({ wish, fitWidth }) => `${wish}|${fitWidth.toFixed(1)}`,
+    palette: { main: 0xFFF8DC, accents: [0xFFD700, 0xFF69B4, 0x00FFFF] },
+  },
+  {
+    // Falls back to the tree until a photo is picked
+    id: 'photo', label: 'Ảnh của bạn', palette: null, starY: null, flat: true,
+    generate: (count, { photo, fitWidth }) => {
+      const image = photo ? decodeParticleImage(photo) : null;
+      return image ? generateImagePositions(count, image, fitWidth) : generateTreePositions(count);
+    },
+    colors: (count, { photo }) => {
+      const image = photo ? decodeParticleImage(photo) : null;
+      return image && generateImageColors(count, image);
+    },
+    dependsOn: ({ photo, fitWidth }) => `${photo}|${fitWidth.toFixed(1)}`,
+  },
+];
+
+export const FORMATION_IDS = FORMATIONS.map(f => f.id);
+
+export const getFormation = (id: FormationId): Formation =>
+  FORMATIONS.find(f => f.id === id) || FORMATIONS[0];
+
+export const isFormationId = (value: string): value is FormationId =>
+  FORMATION_IDS.includes(value as FormationId);
+
+// Cycles the shapes shown in tree mode; the sphere is left to gift opening.
+// `available` narrows the cycle to shapes that can be shown right now.
+export const nextFormationId = (id: FormationId, available: FormationId[] = FORMATION_IDS): FormationId => {
+  const cycle: FormationId[] = available.filter(f => f !== 'sphere');
+  return cycle[(cycle.indexOf(id) + 1) % cycle.length];
+};
+
 // --- Star Shape ---
 
 export const createStarGeometry = (innerRadius: number, outerRadius: number, points: number, thickness: number): THREE.BufferGeometry => {
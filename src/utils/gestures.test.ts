@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { loadRecording } from '../__fixtures__/loadRecording';
+import { toRawHands } from '../services/landmarkRecorder';
+import { HandTracker } from '../services/handTracker';
+import { Gesture } from '../types';
+import { assignHandSlots, classifyHand } from './gestures';
+
+const landmarksOf = (name: string) =>
+  loadRecording(name).frames.map(frame => toRawHands(frame)[0].landmarks);
+
+describe('classifyHand', () => {
+  const cases: [string, Gesture][] = [
+    ['open-palm', 'Open_Palm'],
+    ['closed-fist', 'Closed_Fist'],
+    ['pointing', 'Pointing'],
+    ['victory', 'Victory'],
+    ['thumb-up', 'Thumb_Up'],
+    ['iloveyou', 'ILoveYou'],
+    ['pinch', 'Pinch'],
+  ];
+
+  it.each(cases)('recognizes %s in every frame', (name, gesture) => {
+    landmarksOf(name).forEach(landmarks => {
+      expect(classifyHand(landmarks).gesture).toBe(gesture);
+    });
+  });
+
+  it('gives confidence between 0.5 and 1', () => {
+    landmarksOf('open-palm').forEach(landmarks => {
+      const { confidence } = classifyHand(landmarks);
+      expect(confidence).toBeGreaterThanOrEqual(0.5);
+      expect(confidence).toBeLessThanOrEqual(1);
+    });
+  });
+
+  // The index tip wanders around the curl ratio: 1.3, 1.17, 1.23, 1.15, 1.25, 1.1, 1.05, 1.15, 1.23, 1.3
+  describe('hysteresis', () => {
+    const frames = landmarksOf('index-threshold');
+
+    it('flickers without the previous finger states', () => {
+      expect(frames.map(landmarks => classifyHand(landmarks).fingers.index)).toEqual(
+        [true, false, true, false, true, false, false, false, true, true]
+      );
+    });
+
+    it('only changes state once the finger clears the dead band', () => {
+      let previous = classifyHand(frames[0]).fingers;
+      const states = frames.map(landmarks => {
+        previous = classifyHand(landmarks, previous).fingers;
+        return previous.index;
+      });
+      expect(states).toEqual([true, true, true, true, true, false, false, false, false, true]);
+    });
+
+    it('is applied by the HandTracker across frames', () => {
+      const tracker = new HandTracker();
+      const gestures = loadRecording('index-threshold').frames.map(frame =>
+        tracker.process(toRawHands(frame)).hands[0].gesture
+      );
+      // With the index curled only the middle finger is out, which reads as a fist
+      expect(gestures).toEqual([
+        ...Array(5).fill('Victory'),
+        ...Array(4).fill('Closed_Fist'),
+        'Victory',
+      ]);
+    });
+  });
+});
+
+describe('assignHandSlots', () => {
+  const at = (x: number, y = 0.5) => ({ x, y, z: 0 });
+
+  it('assigns nothing on a frame without hands', () => {
+    expect(assignHandSlots([], [null, null])).toEqual([]);
+    expect(assignHandSlots([], [at(0.3), at(0.7)])).toEqual([]);
+  });
+
+  it('puts a fresh pair in image order', () => {
+    expect(assignHandSlots([at(0.8), at(0.2)], [null, null])).toEqual([1, 0]);
+  });
+
+  it('keeps each hand in the slot it was nearest to', () => {
+    expect(assignHandSlots([at(0.65)], [at(0.3), at(0.7)])).toEqual([1]);
+    expect(assignHandSlots([at(0.32), at(0.68)], [at(0.7), at(0.3)])).toEqual([1, 0]);
+  });
+
+  it('starts a single hand in the first slot', () => {
+    expect(assignHandSlots([at(0.9)], [null, null])).toEqual([0]);
+  });
+});
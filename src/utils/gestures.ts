@@ -0,0 +1,228 @@
+import { FingerStates, Gesture, HandLandmark, HandSlot, HandState, Handedness } from '../types';
+
+// --- Landmark Indices (MediaPipe Hand) ---
+
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const RING_MCP = 13;
+const PINKY_MCP = 17;
+
+// Index, Middle, Ring, Pinky
+const FINGER_TIPS = [8, 12, 16, 20];
+const FINGER_PIPS = [6, 10, 14, 18];
+
+// Landmark chain of each finger, knuckle to tip (used for drawing)
+export const FINGER_LANDMARKS: Record<keyof FingerStates, number[]> = {
+  thumb: [1, 2, 3, 4],
+  index: [5, 6, 7, 8],
+  middle: [9, 10, 11, 12],
+  ring: [13, 14, 15, 16],
+  pinky: [17, 18, 19, 20],
+};
+
+// Palm outline; fingers are drawn from FINGER_LANDMARKS
+export const PALM_CONNECTIONS: [number, number][] = [
+  [WRIST, 1], [WRIST, INDEX_MCP], [INDEX_MCP, MIDDLE_MCP], [MIDDLE_MCP, RING_MCP], [RING_MCP, PINKY_MCP], [WRIST, PINKY_MCP],
+];
+
+// --- Thresholds ---
+
+// A finger is curled when its tip is closer to the wrist than PIP * margin
+const CURL_RATIO = 1.2;
+// Dead band around CURL_RATIO: a finger keeps its previous state inside it
+const CURL_HYSTERESIS = 0.08;
+// Thumb tip distance from index knuckle, relative to palm size
+const THUMB_OUT_RATIO = 0.5;
+// Thumb tip must rise this far (palm sizes) above its base to count as "up"
+const THUMB_UP_RISE = 0.3;
+// Thumb tip to index tip distance, relative to palm size
+const PINCH_RATIO = 0.25;
+// Two hands this far apart (fraction of frame width) belong to different people
+const TWO_PERSON_GAP = 0.55;
+
+// Personal thresholds from calibration; defaults fit an adult hand at arm's length
+export interface GestureThresholds {
+  curlRatios: [number, number, number, number]; // Index, Middle, Ring, Pinky
+  thumbOutRatio: number;
+}
+
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  curlRatios: [CURL_RATIO, CURL_RATIO, CURL_RATIO, CURL_RATIO],
+  thumbOutRatio: THUMB_OUT_RATIO,
+};
+
+// Open and curled ratios closer than this can't be told apart reliably
+const MIN_CALIBRATION_GAP = 0.15;
+
+export interface HandClassification {
+  gesture: Gesture;
+  confidence: number;
+  fingers: FingerStates;
+}
+
+const dist2D = (a: HandLandmark, b: HandLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Threshold test with hysteresis around the edge when the previous state is known
+const isAbove = (value: number, threshold: number, band: number, previous?: boolean) => {
+  if (previous === undefined) return value >= threshold;
+  return previous ? value >= threshold - band : value >= threshold + band;
+};
+
+// How far a value sits from its threshold, mapped to 0..1 (0 = right on the edge)
+const margin = (value: number, threshold: number, band: number) =>
+  Math.min(1, Math.abs(value - threshold) / band);
+
+// Confidence from the margins of every check that decided the gesture
+const confidenceFrom = (margins: number[]) =>
+  0.5 + 0.5 * (margins.reduce((sum, m) => sum + m, 0) / margins.length);
+
+// --- Classifier ---
+
+export interface HandRatios {
+  fingers: number[]; // Tip-to-wrist / PIP-to-wrist for Index, Middle, Ring, Pinky
+  thumb: number; // Thumb tip to index knuckle, relative to palm size
+}
+
+export const measureHand = (landmarks: HandLandmark[]): HandRatios => {
+  const wrist = landmarks[WRIST];
+  const palmSize = Math.max(dist2D(wrist, landmarks[MIDDLE_MCP]), 1e-6);
+  return {
+    fingers: FINGER_TIPS.map((tip, i) =>
+      dist2D(landmarks[tip], wrist) / Math.max(dist2D(landmarks[FINGER_PIPS[i]], wrist), 1e-6)
+    ),
+    thumb: dist2D(landmarks[THUMB_TIP], landmarks[INDEX_MCP]) / palmSize,
+  };
+};
+
+// Pass the previous frame's finger states to stop fingers flickering at the threshold
+export const classifyHand = (
+  landmarks: HandLandmark[],
+  previous?: FingerStates | null,
+  thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS
+): HandClassification => {
+  const palmSize = Math.max(dist2D(landmarks[WRIST], landmarks[MIDDLE_MCP]), 1e-6);
+  const ratios = measureHand(landmarks);
+
+  // 1. Four fingers: tip-to-wrist vs PIP-to-wrist
+  const { curlRatios, thumbOutRatio } = thresholds;
+  const prevFingers = previous ? [previous.index, previous.middle, previous.ring, previous.pinky] : [];
+  const [index, middle, ring, pinky] = ratios.fingers.map((r, i) => isAbove(r, curlRatios[i], CURL_HYSTERESIS, prevFingers[i]));
+  const fingerMargins = ratios.fingers.map((r, i) => margin(r, curlRatios[i], 0.3));
+
+  // 2. Thumb: spread away from the index knuckle
+  const thumb = isAbove(ratios.thumb, thumbOutRatio, CURL_HYSTERESIS, previous?.thumb);
+  const thumbMargin = margin(ratios.thumb, thumbOutRatio, 0.3);
+
+  const fingers: FingerStates = { thumb, index, middle, ring, pinky };
+  const curledCount = [index, middle, ring, pinky].filter(e => !e).length;
+  const result = (gesture: Gesture, margins: number[]): HandClassification =>
+    ({ gesture, confidence: confidenceFrom(margins), fingers });
+
+  // 3. Pinch: thumb and index tips touching while the hand is open
+  const pinchRatio = dist2D(landmarks[THUMB_TIP], landmarks[FINGER_TIPS[0]]) / palmSize;
+  if (pinchRatio < PINCH_RATIO && curledCount < 3) {
+    return result('Pinch', [margin(pinchRatio, PINCH_RATIO, PINCH_RATIO)]);
+  }
+
+  // 4. Shapes with specific fingers out
+  if (index && !middle && !ring && !pinky) {
+    return result('Pointing', fingerMargins);
+  }
+  if (index && middle && !ring && !pinky) {
+    return result('Victory', fingerMargins);
+  }
+  if (thumb && index && !middle && !ring && pinky) {
+    return result('ILoveYou', [thumbMargin, ...fingerMargins]);
+  }
+
+  // 5. Fist family
+  if (curledCount === 4 && thumb) {
+    const rise = (landmarks[THUMB_MCP].y - landmarks[THUMB_TIP].y) / palmSize;
+    if (rise > THUMB_UP_RISE) {
+      return result('Thumb_Up', [thumbMargin, margin(rise, THUMB_UP_RISE, 0.3), ...fingerMargins]);
+    }
+  }
+  // If 3 or more fingers are curled, consider it a Fist
+  if (curledCount >= 3) {
+    return result('Closed_Fist', fingerMargins);
+  }
+  return result('Open_Palm', fingerMargins);
+};
+
+// --- Calibration ---
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Each threshold sits halfway between the user's open and curled ratios.
+// Fingers whose two poses are too close to separate keep the default.
+export const deriveThresholds = (open: HandRatios[], fist: HandRatios[]): GestureThresholds => {
+  const split = (openValue: number, fistValue: number, fallback: number) =>
+    openValue - fistValue >= MIN_CALIBRATION_GAP ? (openValue + fistValue) / 2 : fallback;
+
+  const { curlRatios, thumbOutRatio } = DEFAULT_GESTURE_THRESHOLDS;
+  return {
+    curlRatios: curlRatios.map((fallback, i) =>
+      split(median(open.map(r => r.fingers[i])), median(fist.map(r => r.fingers[i])), fallback)
+    ) as GestureThresholds['curlRatios'],
+    thumbOutRatio: split(median(open.map(r => r.thumb)), median(fist.map(r => r.thumb)), thumbOutRatio),
+  };
+};
+
+export const parseHandedness = (label: string | undefined): Handedness | null =>
+  label === 'Left' || label === 'Right' ? label : null;
+
+// --- Multi-Hand Helpers ---
+
+export const palmCenter = (landmarks: HandLandmark[]): HandLandmark => {
+  const ids = [WRIST, INDEX_MCP, MIDDLE_MCP, RING_MCP, PINKY_MCP];
+  const sum = ids.reduce(
+    (acc, id) => ({ x: acc.x + landmarks[id].x, y: acc.y + landmarks[id].y, z: acc.z + landmarks[id].z }),
+    { x: 0, y: 0, z: 0 }
+  );
+  return { x: sum.x / ids.length, y: sum.y / ids.length, z: sum.z / ids.length };
+};
+
+// Wrist to middle knuckle: grows as the hand approaches the camera
+export const palmSize = (landmarks: HandLandmark[]): number =>
+  dist2D(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+
+// Match this frame's hands to last frame's slots by nearest palm center
+export const assignHandSlots = (centers: HandLandmark[], previous: (HandLandmark | null)[]): HandSlot[] => {
+  const slots: HandSlot[] = [0, 1];
+  const cost = (hand: number, slot: HandSlot) => {
+    const prev = previous[slot];
+    return prev ? dist2D(centers[hand], prev) : 1; // Unknown slots cost a full frame width
+  };
+
+  if (centers.length === 0) return [];
+  if (centers.length === 1) {
+    return [cost(0, 0) <= cost(0, 1) ? 0 : 1];
+  }
+  if (!previous[0] && !previous[1]) {
+    // Fresh pair: leftmost hand in the image takes slot 0
+    return centers[0].x <= centers[1].x ? [0, 1] : [1, 0];
+  }
+  const straight = cost(0, 0) + cost(1, 1);
+  const swapped = cost(0, 1) + cost(1, 0);
+  return straight <= swapped ? slots : [1, 0];
+};
+
+// Distance between both palms (fraction of frame), or null without two hands
+export const handSpread = (hands: HandState[]): number | null => {
+  if (hands.length < 2) return null;
+  return dist2D(palmCenter(hands[0].landmarks), palmCenter(hands[1].landmarks));
+};
+
+// Two left or two right hands, or hands too far apart for one person's reach
+export const isTwoPeople = (hands: HandState[]): boolean => {
+  if (hands.length < 2) return false;
+  const [a, b] = hands;
+  if (a.handedness && a.handedness === b.handedness) return true;
+  return Math.abs(palmCenter(a.landmarks).x - palmCenter(b.landmarks).x) > TWO_PERSON_GAP;
+};
@@ -0,0 +1,43 @@
+import { HandLandmark } from '../types';
+import { palmCenter, palmSize } from './gestures';
+
+// --- Continuous Hand Steering ---
+
+export const HAND_CONTROL = {
+  deadZone: 0.15, // Fraction of the half-frame around center that is ignored
+  maxYawSpeed: 1.2, // rad/s at the edge of the frame
+  maxTilt: 0.35, // rad
+  smoothing: 0.12, // Per-frame lerp factor for steering inputs
+  resumeAfterMs: 3000, // Auto-rotation resumes after the hand is gone this long
+  // Palm size (fraction of frame) -> camera Z
+  palmFar: 0.08,
+  palmNear: 0.25,
+  zoomFar: 45,
+  zoomNear: 14,
+};
+
+export interface HandSteering {
+  x: number; // -1 (user's left) .. 1 (user's right)
+  y: number; // -1 (down) .. 1 (up)
+  zoom: number; // Target camera Z
+}
+
+// Rescales so the output starts at 0 right at the edge of the dead zone
+export const applyDeadZone = (value: number, deadZone: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadZone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+};
+
+export const steeringFromHand = (landmarks: HandLandmark[]): HandSteering => {
+  const center = palmCenter(landmarks);
+  // Camera image is not mirrored: moving your hand right lowers x
+  const x = applyDeadZone((0.5 - center.x) * 2, HAND_CONTROL.deadZone);
+  const y = applyDeadZone((0.5 - center.y) * 2, HAND_CONTROL.deadZone);
+
+  const { palmFar, palmNear, zoomFar, zoomNear } = HAND_CONTROL;
+  const t = Math.max(0, Math.min(1, (palmSize(landmarks) - palmFar) / (palmNear - palmFar)));
+  const zoom = zoomFar + (zoomNear - zoomFar) * t;
+
+  return { x, y, zoom };
+};
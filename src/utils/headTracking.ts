@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { HandLandmark, HeadPose } from '../types';
+
+// --- Head Tracking ---
+
+export const HEAD_TRACKING = {
+  frameInterval: 3, // Face inference runs on every Nth hand frame (~10 fps at 30)
+  eyeTravel: 7, // World units the virtual eye moves with the head at the frame edge
+  smoothing: 0.08, // Per-frame lerp, hides the lower face rate
+  smileOn: 0.6, // Blendshape score that counts as a smile...
+  smileOff: 0.3, // ...and has to drop below this before the next one
+  smileCooldownMs: 2500,
+};
+
+// Outer eye corners in the 478-point face mesh
+const LEFT_EYE = 33;
+const RIGHT_EYE = 263;
+
+interface BlendshapeScore {
+  categoryName: string;
+  score: number;
+}
+
+export const headPoseFromFace = (landmarks: HandLandmark[], blendshapes: BlendshapeScore[] = []): HeadPose | null => {
+  const left = landmarks[LEFT_EYE];
+  const right = landmarks[RIGHT_EYE];
+  if (!left || !right) return null;
+  const score = (name: string) => blendshapes.find(b => b.categoryName === name)?.score ?? 0;
+  return {
+    // Camera image is not mirrored: moving your head right lowers x
+    x: Math.max(-1, Math.min(1, (0.5 - (left.x + right.x) / 2) * 2)),
+    y: Math.max(-1, Math.min(1, (0.5 - (left.y + right.y) / 2) * 2)),
+    smile: (score('mouthSmileLeft') + score('mouthSmileRight')) / 2,
+  };
+};
+
+// --- Window Parallax ---
+// Off-axis projection: the eye moves by `eye` (camera-local x/y) while the view window,
+// a plane `windowDistance` in front of the unshifted camera, stays put. The scene then
+// shifts behind the screen like it would behind a real window.
+
+export const applyWindowProjection = (camera: THREE.PerspectiveCamera, eye: THREE.Vector2, windowDistance: number) => {
+  const halfHeight = windowDistance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2) / camera.zoom;
+  const halfWidth = halfHeight * camera.aspect;
+  const scale = camera.near / windowDistance; // Window edges projected onto the near plane
+  camera.projectionMatrix.makePerspective(
+    (-halfWidth - eye.x) * scale,
+    (halfWidth - eye.x) * scale,
+    (halfHeight - eye.y) * scale,
+    (-halfHeight - eye.y) * scale,
+    camera.near,
+    camera.far
+  );
+  camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert();
+};
@@ -0,0 +1,135 @@
+import * as THREE from 'three';
+import { Reflector } from 'three/examples/jsm/objects/Reflector.js';
+
+// --- Mirror Floor ---
+// A real planar reflection: the Reflector renders the whole scene from a camera mirrored
+// under the floor into a texture, which the floor samples with a small blur and fades
+// out away from the tree. Nothing has to be duplicated or kept in sync by hand.
+
+export const MIRROR_FLOOR = {
+  size: 200, // World units, square
+  color: 0x111122, // Dark blue floor under the reflection
+  opacity: 0.7, // The snowy ground shows through a little
+  strength: 0.45, // How bright the reflection is at the center
+  maxBlurTexels: 6, // Blur radius at blur = 1
+  fadeStart: 6, // Distance from the tree where the reflection starts fading...
+  fadeEnd: 60, // ...and where it is gone at fade = 0; higher fade pulls it closer
+  resolutionScale: 0.5, // Reflection texture size relative to the drawing buffer
+};
+
+const shader = {
+  name: 'MirrorFloorShader',
+  uniforms: {
+    ...THREE.UniformsLib.fog,
+    color: { value: null },
+    tDiffuse: { value: null },
+    textureMatrix: { value: null },
+    floorColor: { value: new THREE.Color(MIRROR_FLOOR.color) },
+    strength: { value: MIRROR_FLOOR.strength },
+    blur: { value: new THREE.Vector2() }, // Radius in texture space
+    fadeEnd: { value: MIRROR_FLOOR.fadeEnd },
+    opacity: { value: MIRROR_FLOOR.opacity },
+  },
+  vertexShader: /* glsl */ `
+    uniform mat4 textureMatrix;
+    varying vec4 vUv;
+    varying float vRadius;
+    #include <fog_pars_vertex>
+
+    void main() {
+      vUv = textureMatrix * vec4(position, 1.0);
+      vRadius = length(position.xy);
+      vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+      gl_Position = projectionMatrix * mvPosition;
+      #include <fog_vertex>
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform vec3 floorColor;
+    uniform float strength;
+    uniform vec2 blur;
+    uniform float fadeEnd;
+    uniform float opacity;
+    varying vec4 vUv;
+    varying float vRadius;
+    #include <fog_pars_fragment>
+
+    void main() {
+      vec2 uv = vUv.xy / vUv.w;
+
+      // 9-tap blur: center plus two rings of four
+      vec3 reflection = texture2D(tDiffuse, uv).rgb * 0.2;
+      reflection += texture2D(tDiffuse, uv + vec2(blur.x, 0.0)).rgb * 0.1;
+      reflection += texture2D(tDiffuse, uv - vec2(blur.x, 0.0)).rgb * 0.1;
+      reflection += texture2D(tDiffuse, uv + vec2(0.0, blur.y)).rgb * 0.1;
+      reflection += texture2D(tDiffuse, uv - vec2(0.0, blur.y)).rgb * 0.1;
+      reflection += texture2D(tDiffuse, uv + blur * 0.7).rgb * 0.1;
+      reflection += texture2D(tDiffuse, uv - blur * 0.7).rgb * 0.1;
+      reflection += texture2D(tDiffuse, uv + vec2(blur.x, -blur.y) * 0.7).rgb * 0.1;
+      reflection += texture2D(tDiffuse, uv - vec2(blur.x, -blur.y) * 0.7).rgb * 0.1;
+
+      float fade = 1.0 - smoothstep(${MIRROR_FLOOR.fadeStart.toFixed(1)}, fadeEnd, vRadius);
+      gl_FragColor = vec4(floorColor + reflection * strength * fade, opacity);
+      #include <tonemapping_fragment>
+      #include <colorspace_fragment>
+      #include <fog_fragment>
+    }
+  `,
+};
+
+export interface MirrorFloor {
+  mesh: THREE.Mesh;
+  setResolution: (drawingBufferWidth: number, drawingBufferHeight: number) => void;
+  setLook: (blur: number, fade: number) => void; // Both 0..1
+  setEnabled: (enabled: boolean) => void; // Off leaves a plain floor and skips the extra scene render
+  dispose: () => void;
+}
+
+export const createMirrorFloor = (y: number): MirrorFloor => {
+  const reflector = new Reflector(new THREE.PlaneGeometry(MIRROR_FLOOR.size, MIRROR_FLOOR.size), {
+    shader,
+    textureWidth: 512,
+    textureHeight: 512,
+    multisample: 0, // The blur hides the aliasing
+  });
+  reflector.rotation.x = -Math.PI / 2;
+  reflector.position.y = y;
+
+  const material = reflector.material as THREE.ShaderMaterial;
+  material.fog = true;
+  material.transparent = true;
+  const renderReflection = reflector.onBeforeRender;
+  const target = reflector.getRenderTarget();
+  let blurAmount = 0;
+
+  const updateBlur = () => {
+    const texels = blurAmount * MIRROR_FLOOR.maxBlurTexels;
+    material.uniforms.blur.value.set(texels / target.width, texels / target.height);
+  };
+
+  return {
+    mesh: reflector,
+    setResolution: (width: number, height: number) => {
+      target.setSize(
+        Math.max(1, Math.round(width * MIRROR_FLOOR.resolutionScale)),
+        Math.max(1, Math.round(height * MIRROR_FLOOR.resolutionScale))
+      );
+      updateBlur();
+    },
+    setLook: (blur: number, fade: number) => {
+      blurAmount = blur;
+      updateBlur();
+      // fade 0 keeps the reflection out to fadeEnd; fade 1 pulls it in to just around the tree
+      material.uniforms.fadeEnd.value = THREE.MathUtils.lerp(MIRROR_FLOOR.fadeEnd, MIRROR_FLOOR.fadeStart + 4, fade);
+    },
+    setEnabled: (enabled: boolean) => {
+      reflector.onBeforeRender = enabled ? renderReflection : () => {};
+      material.uniforms.strength.value = enabled ? MIRROR_FLOOR.strength : 0;
+    },
+    dispose: () => {
+      reflector.dispose(); // Render target and material
+      reflector.geometry.dispose();
+    },
+  };
+};
@@ -0,0 +1,224 @@
+import * as THREE from 'three';
+
+// --- Morphing Particles ---
+// The formation morph runs on the GPU: start and target positions (and colors) are
+// attributes, and the shader blends them by the `morph` uniform and adds the breathing
+// motion and the palm force field. The CPU only touches the buffers when a new morph
+// starts, so the particle count can go far beyond what a per-frame JS loop allows.
+
+// From -> to interpolation that can be retargeted halfway, so any formation morphs into any other
+export interface Blend {
+  from: Float32Array;
+  to: Float32Array;
+  t: { value: number }; // Tweened 0 -> 1 by GSAP
+}
+
+const createBlend = (initial: Float32Array): Blend => ({ from: initial.slice(), to: initial.slice(), t: { value: 1 } });
+
+// Freezes the current in-between state as the new start
+const retargetBlend = (blend: Blend, next: Float32Array) => {
+  const { from, to, t } = blend;
+  for (let i = 0; i < from.length; i++) from[i] += (to[i] - from[i]) * t.value;
+  to.set(next);
+  t.value = 0;
+};
+
+const MAX_PALMS = 2;
+
+const vertexShader = /* glsl */ `
+  uniform float morph;
+  uniform float colorMorph;
+  uniform float time;
+  uniform float size;
+  uniform float scale;
+  uniform vec3 palmOrigins[${MAX_PALMS}];
+  uniform vec3 palmDirections[${MAX_PALMS}];
+  uniform float palmAmounts[${MAX_PALMS}];
+  uniform float fieldRadius;
+  uniform float fieldAttract;
+  attribute vec3 morphTarget;
+  attribute vec3 colorTarget;
+  varying vec3 vColor;
+  #include <fog_pars_vertex>
+
+  // Points within the radius of a palm ray are pushed out to its edge (repel) or drawn
+  // onto it (attract); the amounts spring in and out on the CPU
+  vec3 palmField(vec3 p) {
+    vec3 offset = vec3(0.0);
+    for (int i = 0; i < ${MAX_PALMS}; i++) {
+      if (palmAmounts[i] == 0.0) continue;
+      vec3 o = palmOrigins[i];
+      vec3 d = palmDirections[i];
+      vec3 away = p - (o + d * max(0.0, dot(p - o, d)));
+      float dist = length(away);
+      if (dist >= fieldRadius || dist < 1e-4) continue;
+      vec3 dir = away / dist;
+      if (fieldAttract > 0.5) offset -= dir * dist * (1.0 - dist / fieldRadius) * palmAmounts[i];
+      else offset += dir * (fieldRadius - dist) * palmAmounts[i];
+    }
+    return offset;
+  }
+
+  void main() {
+    vec3 base = mix(position, morphTarget, morph);
+
+    // Organic breathing
+    float t = time * 1.5;
+    vec3 breathe = vec3(
+      sin(base.y * 0.5 + t) * 0.15,
+      cos(base.x * 0.5 + t * 0.8) * 0.075,
+      sin(base.y * 0.5 + t * 1.2) * 0.15
+    );
+
+    vec3 moved = base + breathe;
+    vec4 mvPosition = modelViewMatrix * vec4(moved + palmField(moved), 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = size * (scale / -mvPosition.z); // Same attenuation as PointsMaterial
+    vColor = mix(color, colorTarget, colorMorph);
+    #include <fog_vertex>
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D map;
+  uniform float opacity;
+  varying vec3 vColor;
+  #include <fog_pars_fragment>
+
+  void main() {
+    vec2 uv = vec2(gl_PointCoord.x, 1.0 - gl_PointCoord.y);
+    gl_FragColor = vec4(vColor, opacity) * texture2D(map, uv);
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`;
+
+export interface MorphParticles {
+  points: THREE.Points;
+  readonly count: number;
+  shape: Blend;
+  colors: Blend;
+  // Start blending toward new positions/colors from wherever the particles are now; tween `.t` afterwards
+  retargetShape: (next: Float32Array) => void;
+  retargetColors: (next: Float32Array) => void;
+  // Palm rays in the points' local space with their current strength (0 = no effect)
+  setField: (rays: THREE.Ray[], amounts: number[], radius: number, attract: boolean) => void;
+  update: (time: number) => void;
+  setViewportHeight: (pixels: number) => void; // Drawing buffer height, for point size
+  setSize: (size: number) => void;
+  // Swap in buffers for a different particle count, showing this shape and colors right away
+  resize: (positions: Float32Array, colors: Float32Array) => void;
+  dispose: () => void; // The texture belongs to the caller
+}
+
+export const createMorphParticles = (
+  positions: Float32Array,
+  colors: Float32Array,
+  texture: THREE.Texture,
+  options: { size: number, opacity: number }
+): MorphParticles => {
+  const shape = createBlend(positions);
+  const colorBlend = createBlend(colors);
+
+  // Attributes wrap the blend arrays directly, so retargeting only needs an upload
+  const createGeometry = () => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(shape.from, 3));
+    geometry.setAttribute('morphTarget', new THREE.BufferAttribute(shape.to, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colorBlend.from, 3));
+    geometry.setAttribute('colorTarget', new THREE.BufferAttribute(colorBlend.to, 3));
+    return geometry;
+  };
+  let geometry = createGeometry();
+
+  const uniforms = {
+    ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+    morph: { value: shape.t.value },
+    colorMorph: { value: colorBlend.t.value },
+    time: { value: 0 },
+    size: { value: options.size },
+    scale: { value: 1 },
+    map: { value: texture },
+    opacity: { value: options.opacity },
+    palmOrigins: { value: Array.from({ length: MAX_PALMS }, () => new THREE.Vector3()) },
+    palmDirections: { value: Array.from({ length: MAX_PALMS }, () => new THREE.Vector3(0, 0, -1)) },
+    palmAmounts: { value: new Array<number>(MAX_PALMS).fill(0) },
+    fieldRadius: { value: 1 },
+    fieldAttract: { value: 0 },
+  };
+  const material = new THREE.ShaderMaterial({
+    uniforms,
+    vertexShader,
+    fragmentShader,
+    vertexColors: true,
+    transparent: true,
+    depthWrite: true,
+    blending: THREE.AdditiveBlending,
+    fog: true,
+  });
+
+  const points = new THREE.Points(geometry, material);
+  // The bounds only cover the start positions; the shader moves the points elsewhere
+  points.frustumCulled = false;
+
+  const needsUpload = (...names: string[]) => names.forEach(name => { geometry.getAttribute(name).needsUpdate = true; });
+
+  const retargetShape = (next: Float32Array) => {
+    retargetBlend(shape, next);
+    needsUpload('position', 'morphTarget');
+  };
+
+  const retargetColors = (next: Float32Array) => {
+    retargetBlend(colorBlend, next);
+    needsUpload('color', 'colorTarget');
+  };
+
+  // A new geometry rather than new attributes on the old one, so its GPU buffers are freed.
+  // The blends keep their `t` objects (tweens may hold them); with from = to, `t` doesn't matter.
+  const resize = (nextPositions: Float32Array, nextColors: Float32Array) => {
+    shape.from = nextPositions.slice();
+    shape.to = nextPositions.slice();
+    colorBlend.from = nextColors.slice();
+    colorBlend.to = nextColors.slice();
+    geometry.dispose();
+    geometry = createGeometry();
+    points.geometry = geometry;
+  };
+
+  const setField = (rays: THREE.Ray[], amounts: number[], radius: number, attract: boolean) => {
+    for (let i = 0; i < MAX_PALMS; i++) {
+      const ray = rays[i];
+      uniforms.palmAmounts.value[i] = ray ? amounts[i] : 0;
+      if (!ray) continue;
+      uniforms.palmOrigins.value[i].copy(ray.origin);
+      uniforms.palmDirections.value[i].copy(ray.direction);
+    }
+    uniforms.fieldRadius.value = radius;
+    uniforms.fieldAttract.value = attract ? 1 : 0;
+  };
+
+  const update = (time: number) => {
+    uniforms.time.value = time;
+    uniforms.morph.value = shape.t.value;
+    uniforms.colorMorph.value = colorBlend.t.value;
+  };
+
+  return {
+    points,
+    get count() { return shape.from.length / 3; },
+    shape,
+    colors: colorBlend,
+    retargetShape,
+    retargetColors,
+    setField,
+    update,
+    setViewportHeight: (pixels: number) => { uniforms.scale.value = pixels / 2; },
+    setSize: (size: number) => { uniforms.size.value = size; },
+    resize,
+    dispose: () => {
+      geometry.dispose();
+      material.dispose();
+    },
+  };
+};
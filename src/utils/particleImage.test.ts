@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PARTICLE_IMAGE, ParticleImage, decodeParticleImage, encodeParticleImage } from './particleImage';
+
+// Palette channels are stored in 6 bits
+const levels = (values: number[]) => values.map(v => Math.round(v * 63) / 63);
+
+const testImage = (width: number, height: number): ParticleImage => ({
+  width,
+  height,
+  palette: Array.from({ length: PARTICLE_IMAGE.colors }, (_, k): [number, number, number] =>
+    [k / 15, (15 - k) / 15, (k * 7 % 16) / 15]
+  ),
+  pixels: Uint8Array.from({ length: width * height }, (_, i) => (i * 5 + (i >> 3)) % PARTICLE_IMAGE.colors),
+});
+
+describe('photo share codes', () => {
+  // Pixel counts that leave 0, 1 and 2 indices in the last group of three
+  it.each([[40, 30], [7, 1], [5, 1], [1, 1]])('round-trips a %ix%i image', (width, height) => {
+    const image = testImage(width, height);
+    const decoded = decodeParticleImage(encodeParticleImage(image));
+    expect(decoded).not.toBeNull();
+    expect(decoded!.width).toBe(width);
+    expect(decoded!.height).toBe(height);
+    expect(Array.from(decoded!.pixels)).toEqual(Array.from(image.pixels));
+    decoded!.palette.forEach((color, k) => {
+      levels(image.palette[k]).forEach((v, c) => expect(color[c]).toBeCloseTo(v, 10));
+    });
+  });
+
+  it('stays within the share link budget for a full-size photo', () => {
+    expect(encodeParticleImage(testImage(40, 30)).length).toBeLessThan(900);
+  });
+
+  it('rejects truncated or invalid codes', () => {
+    const code = encodeParticleImage(testImage(7, 1));
+    expect(decodeParticleImage(code.slice(0, -1))).toBeNull();
+    expect(decodeParticleImage(code + 'AA')).toBeNull();
+    expect(decodeParticleImage('A' + code.slice(1))).toBeNull(); // Zero width
+    expect(decodeParticleImage(code.replace(/.$/, '='))).toBeNull();
+    expect(decodeParticleImage('')).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+// --- Particle Image ---
+// A sender's photo shrunk to a small grid of palette colors, so it fits in the share link.
+// Everything the particles need is derived from this code alone, the same way on every device.
+
+export interface ParticleImage {
+  width: number;
+  height: number;
+  palette: [number, number, number][]; // sRGB, 0..1 (as read from the canvas)
+  pixels: Uint8Array; // Palette index per pixel, rows from the top
+}
+
+export const PARTICLE_IMAGE = {
+  maxSide: 40, // Grid size of the longer side
+  colors: 16, // Palette entries (4-bit indices)
+  iterations: 8, // k-means passes when picking the palette
+};
+
+// --- Compact Encoding ---
+// Width and height (1 char each), the palette (3 chars = 6 bits per channel each),
+// then pixel indices packed three to two characters. ~850 characters for a 40x30 photo.
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const toChar = (bits: number) => ALPHABET[bits & 63];
+
+export const encodeParticleImage = ({ width, height, palette, pixels }: ParticleImage): string => {
+  let code = toChar(width) + toChar(height);
+  palette.forEach(([r, g, b]) => {
+    code += toChar(Math.round(r * 63)) + toChar(Math.round(g * 63)) + toChar(Math.round(b * 63));
+  });
+  for (let i = 0; i < pixels.length; i += 3) {
+    const bits = (pixels[i] << 8) | ((pixels[i + 1] ?? 0) << 4) | (pixels[i + 2] ?? 0);
+    code += toChar(bits >> 6) + toChar(bits);
+  }
+  return code;
+};
+
+export const decodeParticleImage = (code: string): ParticleImage | null => {
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) return null;
+  const values = Array.from(code, c => ALPHABET.indexOf(c));
+  const [width, height] = values;
+  const paletteEnd = 2 + PARTICLE_IMAGE.colors * 3;
+  const count = width * height;
+  if (!width || !height || values.length !== paletteEnd + Math.ceil(count / 3) * 2) return null;
+
+  const palette: [number, number, number][] = [];
+  for (let i = 2; i < paletteEnd; i += 3) {
+    palette.push([values[i] / 63, values[i + 1] / 63, values[i + 2] / 63]);
+  }
+  const pixels = new Uint8Array(count);
+  for (let i = 0, c = paletteEnd; i < count; i += 3, c += 2) {
+    const bits = (values[c] << 6) | values[c + 1];
+    pixels[i] = bits >> 8;
+    if (i + 1 < count) pixels[i + 1] = (bits >> 4) & 15;
+    if (i + 2 < count) pixels[i + 2] = bits & 15;
+  }
+  return { width, height, palette, pixels };
+};
+
+// --- From a Photo ---
+
+const nearest = (palette: ParticleImage['palette'], r: number, g: number, b: number): number => {
+  let best = 0;
+  let bestDist = Infinity;
+  palette.forEach(([pr, pg, pb], k) => {
+    const d = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+    if (d < bestDist) {
+      bestDist = d;
+      best = k;
+    }
+  });
+  return best;
+};
+
+// Plain k-means in RGB, seeded from pixels spread across the brightness range
+const quantize = (rgb: Float32Array, count: number): ParticleImage['palette'] => {
+  const luminance = (i: number) => rgb[i * 3] * 0.3 + rgb[i * 3 + 1] * 0.59 + rgb[i * 3 + 2] * 0.11;
+  const order = Array.from({ length: count }, (_, i) => i).sort((a, b) => luminance(a) - luminance(b));
+  const centers = Array.from({ length: PARTICLE_IMAGE.colors }, (_, k) => {
+    const p = order[Math.floor((k + 0.5) * count / PARTICLE_IMAGE.colors)];
+    return [rgb[p * 3], rgb[p * 3 + 1], rgb[p * 3 + 2]] as [number, number, number];
+  });
+
+  const sums = new Float32Array(PARTICLE_IMAGE.colors * 4);
+  for (let pass = 0; pass < PARTICLE_IMAGE.iterations; pass++) {
+    sums.fill(0);
+    for (let i = 0; i < count; i++) {
+      const k = nearest(centers, rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]);
+      sums[k * 4] += rgb[i * 3];
+      sums[k * 4 + 1] += rgb[i * 3 + 1];
+      sums[k * 4 + 2] += rgb[i * 3 + 2];
+      sums[k * 4 + 3]++;
+    }
+    centers.forEach((center, k) => {
+      const n = sums[k * 4 + 3];
+      if (n > 0) center.splice(0, 3, sums[k * 4] / n, sums[k * 4 + 1] / n, sums[k * 4 + 2] / n);
+    });
+  }
+  return centers;
+};
+
+// Returns the share code, or null when the browser can't read the pixels
+export const encodePhoto = (source: ImageBitmap): string | null => {
+  const scale = PARTICLE_IMAGE.maxSide / Math.max(source.width, source.height);
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const count = width * height;
+  const rgb = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    rgb[i * 3] = data[i * 4] / 255;
+    rgb[i * 3 + 1] = data[i * 4 + 1] / 255;
+    rgb[i * 3 + 2] = data[i * 4 + 2] / 255;
+  }
+
+  const palette = quantize(rgb, count);
+  const pixels = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    pixels[i] = nearest(palette, rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]);
+  }
+  return encodeParticleImage({ width, height, palette, pixels });
+};
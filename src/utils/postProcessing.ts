@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+
+// --- Post-Processing ---
+// Selective bloom: the scene is rendered with everything off BLOOM_LAYER blacked out (meshes
+// still block the glow behind them; other points, sprites and lights are hidden) and blurred
+// by an UnrealBloomPass. The full scene is then rendered normally, the bloom added on top,
+// optional vignette and film grain applied, and the OutputPass tone maps the HDR result.
+
+export const BLOOM_LAYER = 1;
+
+export const POST_PROCESSING = {
+  bloomStrength: 0.8,
+  bloomRadius: 0.45,
+  bloomThreshold: 0.05,
+  exposure: 1.1,
+  vignette: 0.45, // Edge darkening at full effect
+  grain: 0.05, // Noise amplitude
+};
+
+// Opts an object and all its children into the glow
+export const markBloom = (object: THREE.Object3D) => {
+  object.traverse(child => child.layers.enable(BLOOM_LAYER));
+};
+
+const bloomLayer = new THREE.Layers();
+bloomLayer.set(BLOOM_LAYER);
+const darkMaterial = new THREE.MeshBasicMaterial({ color: 0x000000, fog: false });
+const skipRender = () => {};
+
+interface Darkened {
+  material: THREE.Material | THREE.Material[];
+  onBeforeRender: THREE.Object3D['onBeforeRender'];
+}
+
+const combineShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    bloomTexture: { value: null as THREE.Texture | null },
+    vignette: { value: 0 },
+    grain: { value: 0 },
+    time: { value: 0 },
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform sampler2D bloomTexture;
+    uniform float vignette;
+    uniform float grain;
+    uniform float time;
+    varying vec2 vUv;
+
+    float random(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      vec4 base = texture2D(tDiffuse, vUv);
+      vec3 color = base.rgb + texture2D(bloomTexture, vUv).rgb;
+
+      float edge = length(vUv - 0.5) * 1.4142;
+      color *= 1.0 - vignette * smoothstep(0.4, 1.0, edge);
+      color += (random(vUv + fract(time)) - 0.5) * grain;
+
+      gl_FragColor = vec4(color, base.a);
+    }
+  `,
+};
+
+export interface PostProcessing {
+  render: (time: number) => void;
+  setSize: (width: number, height: number) => void;
+  setPixelRatio: (ratio: number) => void;
+  setFilm: (vignette: boolean, grain: boolean) => void;
+  dispose: () => void;
+}
+
+// `samples` > 0 multisamples the scene render, standing in for the canvas' own antialiasing
+export const createPostProcessing = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  samples: number
+): PostProcessing => {
+  const size = renderer.getSize(new THREE.Vector2());
+
+  const bloomPass = new UnrealBloomPass(
+    size.clone(),
+    POST_PROCESSING.bloomStrength,
+    POST_PROCESSING.bloomRadius,
+    POST_PROCESSING.bloomThreshold
+  );
+  const bloomComposer = new EffectComposer(renderer);
+  bloomComposer.renderToScreen = false;
+  bloomComposer.addPass(new RenderPass(scene, camera, null, new THREE.Color(0x000000), 1));
+  bloomComposer.addPass(bloomPass);
+
+  const combinePass = new ShaderPass(combineShader);
+  combinePass.uniforms.bloomTexture.value = bloomComposer.renderTarget2.texture;
+  const outputPass = new OutputPass();
+  const finalComposer = new EffectComposer(renderer, new THREE.WebGLRenderTarget(size.x, size.y, { type: THREE.HalfFloatType, samples }));
+  finalComposer.setSize(size.x, size.y); // Applies the pixel ratio
+  finalComposer.addPass(new RenderPass(scene, camera));
+  finalComposer.addPass(combinePass);
+  finalComposer.addPass(outputPass);
+
+  // Occluders drawn black, other non-glowing drawables hidden, for the bloom buffer only
+  const darkened = new Map<THREE.Mesh, Darkened>();
+  const hidden: THREE.Object3D[] = [];
+
+  const darkenNonBloom = () => {
+    scene.traverseVisible(object => {
+      if (bloomLayer.test(object.layers)) return;
+      if (object instanceof THREE.Mesh) {
+        // Also skips render hooks such as the mirror floor's reflection pass
+        darkened.set(object, { material: object.material, onBeforeRender: object.onBeforeRender });
+        object.material = darkMaterial;
+        object.onBeforeRender = skipRender;
+      } else if (object instanceof THREE.Points || object instanceof THREE.Sprite || object instanceof THREE.Line || object instanceof THREE.Light) {
+        // Lights too, so glowing objects show only their emissive light (and the star's own)
+        hidden.push(object);
+        object.visible = false;
+      }
+    });
+  };
+
+  const restoreNonBloom = () => {
+    darkened.forEach(({ material, onBeforeRender }, mesh) => {
+      mesh.material = material;
+      mesh.onBeforeRender = onBeforeRender;
+    });
+    darkened.clear();
+    hidden.forEach(object => { object.visible = true; });
+    hidden.length = 0;
+  };
+
+  const render = (time: number) => {
+    darkenNonBloom();
+    bloomComposer.render();
+    restoreNonBloom();
+
+    combinePass.uniforms.time.value = time;
+    finalComposer.render();
+  };
+
+  return {
+    render,
+    setSize: (width: number, height: number) => {
+      bloomComposer.setSize(width, height);
+      finalComposer.setSize(width, height);
+    },
+    setPixelRatio: (ratio: number) => {
+      bloomComposer.setPixelRatio(ratio);
+      finalComposer.setPixelRatio(ratio);
+    },
+    setFilm: (vignette: boolean, grain: boolean) => {
+      combinePass.uniforms.vignette.value = vignette ? POST_PROCESSING.vignette : 0;
+      combinePass.uniforms.grain.value = grain ? POST_PROCESSING.grain : 0;
+    },
+    dispose: () => {
+      bloomPass.dispose();
+      combinePass.dispose();
+      outputPass.dispose();
+      bloomComposer.dispose();
+      finalComposer.dispose();
+    },
+  };
+};
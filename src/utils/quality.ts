@@ -0,0 +1,51 @@
+// --- Quality Tiers ---
+// How much the scene draws; the governor moves between tiers. Denser trees use smaller
+// lights so the additive glow stays about as bright as the original 2500.
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualityProfile {
+  label: string;
+  particles: number; // Tree/sphere lights
+  particleSize: number; // Smaller when there are more, so the tree isn't brighter
+  snow: number;
+  pixelRatio: number; // Cap on devicePixelRatio
+  reflections: boolean; // Mirror floor (renders the scene a second time)
+  townDensity: number; // 0..1 share of houses and trees shown
+  bloom: boolean; // Post-processed glow; without it the old halo sprites stand in
+  antialias: boolean; // Only applied when the renderer is created
+}
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+  low: {
+    label: 'Thấp', particles: 2500, particleSize: 0.45, snow: 150, pixelRatio: 1,
+    reflections: false, townDensity: 0.35, bloom: false, antialias: false,
+  },
+  medium: {
+    label: 'Vừa', particles: 12000, particleSize: 0.24, snow: 300, pixelRatio: 1.5,
+    reflections: true, townDensity: 0.65, bloom: true, antialias: false,
+  },
+  high: {
+    label: 'Cao', particles: 40000, particleSize: 0.15, snow: 500, pixelRatio: 2,
+    reflections: true, townDensity: 1, bloom: true, antialias: true,
+  },
+  ultra: {
+    label: 'Siêu', particles: 150000, particleSize: 0.085, snow: 1200, pixelRatio: 2,
+    reflections: true, townDensity: 1, bloom: true, antialias: true,
+  },
+};
+
+// Snow buffers are sized for the top tier, so switching only changes how many are drawn
+export const MAX_QUALITY_PROFILE = QUALITY_PROFILES.ultra;
+
+// Starting point before the governor has measured anything
+export const guessQualityTier = (): QualityTier => {
+  const fewCores = (navigator.hardwareConcurrency || 4) <= 4;
+  const touch = window.matchMedia?.('(pointer: coarse)').matches;
+  return fewCores || touch ? 'medium' : 'high';
+};
+
+export const stepQualityTier = (tier: QualityTier, step: number): QualityTier =>
+  QUALITY_TIERS[Math.max(0, Math.min(QUALITY_TIERS.length - 1, QUALITY_TIERS.indexOf(tier) + step))];
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { SegmentationMask } from '../types';
+
+// --- Selfie Cutout ---
+// The camera feed on a plane behind the tree, with the selfie segmenter's person
+// mask as alpha. The mask is blurred and eased in the shader to feather the edges.
+
+export const SELFIE_CUTOUT = {
+  frameInterval: 2, // Segment every Nth hand frame (~15 fps at 30)
+  height: 18, // World units, roughly ground to treetop
+  position: new THREE.Vector3(11, -1, -10), // Beside the tree, in front of the town
+  feather: 0.2, // Half-width of the soft edge, in mask confidence
+  blurTexels: 2.5, // Mask blur radius, in mask pixels
+};
+
+const vertexShader = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D video;
+  uniform sampler2D mask;
+  uniform vec2 maskTexel;
+  uniform float feather;
+  uniform float opacity;
+  varying vec2 vUv;
+
+  void main() {
+    vec2 uv = vec2(1.0 - vUv.x, vUv.y); // Mirrored, like looking into a mirror
+    vec2 maskUv = vec2(uv.x, 1.0 - uv.y); // Mask rows start at the top
+
+    // 3x3 blur, then a soft threshold around 50% confidence
+    float m = 0.0;
+    for (int x = -1; x <= 1; x++) {
+      for (int y = -1; y <= 1; y++) {
+        m += texture2D(mask, maskUv + vec2(float(x), float(y)) * maskTexel).r;
+      }
+    }
+    float alpha = smoothstep(0.5 - feather, 0.5 + feather, m / 9.0);
+
+    gl_FragColor = vec4(texture2D(video, uv).rgb, alpha * opacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+export interface SelfieCutout {
+  mesh: THREE.Mesh;
+  // Both null (camera off, segmentation off or not ready yet) hides the plane
+  update: (video: HTMLVideoElement | null, mask: SegmentationMask | null) => void;
+  dispose: () => void;
+}
+
+export const createSelfieCutout = (): SelfieCutout => {
+  const maskTexture = new THREE.DataTexture(new Uint8Array(1), 1, 1, THREE.RedFormat);
+  const uniforms = {
+    video: { value: null as THREE.VideoTexture | null },
+    mask: { value: maskTexture as THREE.DataTexture },
+    maskTexel: { value: new THREE.Vector2(1, 1) },
+    feather: { value: SELFIE_CUTOUT.feather },
+    opacity: { value: 1 },
+  };
+  const material = new THREE.ShaderMaterial({
+    uniforms,
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+  });
+
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material);
+  mesh.position.copy(SELFIE_CUTOUT.position);
+  mesh.visible = false;
+
+  let currentVideo: HTMLVideoElement | null = null;
+  let currentMask: SegmentationMask | null = null;
+
+  const update = (video: HTMLVideoElement | null, mask: SegmentationMask | null) => {
+    mesh.visible = !!video && !!mask && video.videoWidth > 0;
+    if (!mesh.visible) return;
+
+    if (video !== currentVideo) {
+      uniforms.video.value?.dispose();
+      const texture = new THREE.VideoTexture(video!);
+      texture.colorSpace = THREE.SRGBColorSpace;
+      uniforms.video.value = texture;
+      currentVideo = video;
+    }
+    mesh.scale.set(SELFIE_CUTOUT.height * video!.videoWidth / video!.videoHeight, SELFIE_CUTOUT.height, 1);
+
+    // Only upload when the worker sent a new mask
+    if (mask !== currentMask) {
+      const { data, width, height } = mask!;
+      if (width !== uniforms.mask.value.image.width || height !== uniforms.mask.value.image.height) {
+        uniforms.mask.value.dispose();
+        const texture = new THREE.DataTexture(data, width, height, THREE.RedFormat);
+        texture.magFilter = THREE.LinearFilter;
+        texture.minFilter = THREE.LinearFilter;
+        texture.unpackAlignment = 1;
+        uniforms.mask.value = texture;
+        uniforms.maskTexel.value.set(SELFIE_CUTOUT.blurTexels / width, SELFIE_CUTOUT.blurTexels / height);
+      } else {
+        uniforms.mask.value.image.data = data;
+      }
+      uniforms.mask.value.needsUpdate = true;
+      currentMask = mask;
+    }
+  };
+
+  const dispose = () => {
+    uniforms.video.value?.dispose();
+    uniforms.mask.value.dispose();
+    material.dispose();
+    mesh.geometry.dispose();
+  };
+
+  return { mesh, update, dispose };
+};
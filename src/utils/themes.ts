@@ -0,0 +1,50 @@
+// --- Scene Color Themes ---
+
+export type SceneThemeId = 'classic' | 'frost' | 'golden' | 'candy';
+
+export interface SceneTheme {
+  id: SceneThemeId;
+  label: string;
+  background: number;
+  main: number; // Most particles (tree body)
+  accents: number[]; // Ornament lights sprinkled in between
+}
+
+export const SCENE_THEMES: SceneTheme[] = [
+  {
+    id: 'classic',
+    label: 'Cổ điển',
+    background: 0x0f0f2a,
+    main: 0x2E8B57,
+    accents: [0xFFD700, 0xE0115F, 0x00FFFF, 0xFFFAF0, 0xFF3333],
+  },
+  {
+    id: 'frost',
+    label: 'Băng giá',
+    background: 0x08182b,
+    main: 0x7FC8FF,
+    accents: [0xFFFFFF, 0xB0E0E6, 0x87CEFA, 0xE0FFFF, 0xC0C0FF],
+  },
+  {
+    id: 'golden',
+    label: 'Hoàng kim',
+    background: 0x1a1008,
+    main: 0xDAA520,
+    accents: [0xFFD700, 0xFFF8DC, 0xFF8C00, 0xFFFAF0, 0xB22222],
+  },
+  {
+    id: 'candy',
+    label: 'Kẹo ngọt',
+    background: 0x2a0f1f,
+    main: 0xFF69B4,
+    accents: [0xFFFFFF, 0xFF1493, 0xFFB6C1, 0x98FB98, 0xFF3333],
+  },
+];
+
+export const getTheme = (id: SceneThemeId): SceneTheme =>
+  SCENE_THEMES.find(t => t.id === id) || SCENE_THEMES[0];
+
+export const nextThemeId = (id: SceneThemeId): SceneThemeId => {
+  const index = SCENE_THEMES.findIndex(t => t.id === id);
+  return SCENE_THEMES[(index + 1) % SCENE_THEMES.length].id;
+};
@@ -0,0 +1,146 @@
+import * as THREE from 'three';
+
+// --- Magic Wand Trail ---
+// Fingertip trail (bulb sprites) plus pinch sparkle bursts (aura sprites).
+// Particles fade by darkening their color, which reads as fading under additive blending.
+
+const TRAIL_COUNT = 400;
+const TRAIL_LIFE = 0.9; // seconds
+const TRAIL_PER_FRAME = 4;
+const SPARKLE_COUNT = 240;
+const SPARKLE_LIFE = 1.2;
+
+const TRAIL_HEAD = new THREE.Color(0xFFFFFF);
+const TRAIL_TAIL = new THREE.Color(0xFFD700);
+const SPARKLE_COLORS = [0xFFD700, 0xFFFFFF, 0xFF69B4, 0x00FFFF].map(c => new THREE.Color(c));
+
+interface ParticlePool {
+  points: THREE.Points;
+  positions: Float32Array;
+  colors: Float32Array;
+  velocities: Float32Array;
+  ages: Float32Array; // >= life = dead
+  base: THREE.Color[]; // Full-brightness color per particle
+  next: number; // Ring buffer cursor
+}
+
+const createPool = (count: number, texture: THREE.Texture, size: number, life: number): ParticlePool => {
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
+  const material = new THREE.PointsMaterial({
+    size,
+    map: texture,
+    sizeAttenuation: true,
+    vertexColors: true,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  });
+
+  const points = new THREE.Points(geometry, material);
+  points.frustumCulled = false; // Bounds change every frame
+  return {
+    points,
+    positions,
+    colors,
+    velocities: new Float32Array(count * 3),
+    ages: new Float32Array(count).fill(life),
+    base: Array.from({ length: count }, () => new THREE.Color()),
+    next: 0,
+  };
+};
+
+const spawn = (pool: ParticlePool, position: THREE.Vector3, velocity: THREE.Vector3, color: THREE.Color) => {
+  const i = pool.next;
+  pool.next = (pool.next + 1) % pool.ages.length;
+  pool.positions.set([position.x, position.y, position.z], i * 3);
+  pool.velocities.set([velocity.x, velocity.y, velocity.z], i * 3);
+  pool.base[i].copy(color);
+  pool.ages[i] = 0;
+};
+
+const step = (pool: ParticlePool, dt: number, life: number, drag: number, gravity: number) => {
+  const { positions, colors, velocities, ages, base } = pool;
+  for (let i = 0; i < ages.length; i++) {
+    const i3 = i * 3;
+    if (ages[i] >= life) {
+      colors[i3] = colors[i3 + 1] = colors[i3 + 2] = 0;
+      continue;
+    }
+    ages[i] += dt;
+    velocities[i3 + 1] -= gravity * dt;
+    for (let k = 0; k < 3; k++) {
+      velocities[i3 + k] *= drag;
+      positions[i3 + k] += velocities[i3 + k] * dt;
+    }
+    const fade = Math.max(0, 1 - ages[i] / life);
+    colors[i3] = base[i].r * fade;
+    colors[i3 + 1] = base[i].g * fade;
+    colors[i3 + 2] = base[i].b * fade;
+  }
+  pool.points.geometry.attributes.position.needsUpdate = true;
+  pool.points.geometry.attributes.color.needsUpdate = true;
+};
+
+export interface WandTrail {
+  group: THREE.Group;
+  // Tip in world space, or null when the wand is not active this frame
+  update: (dt: number, tip: THREE.Vector3 | null) => void;
+  burst: (position: THREE.Vector3) => void;
+  dispose: () => void; // The textures belong to the caller
+}
+
+export const createWandTrail = (bulbTexture: THREE.Texture, auraTexture: THREE.Texture): WandTrail => {
+  const trail = createPool(TRAIL_COUNT, bulbTexture, 0.35, TRAIL_LIFE);
+  const sparkles = createPool(SPARKLE_COUNT, auraTexture, 0.6, SPARKLE_LIFE);
+  const group = new THREE.Group();
+  group.add(trail.points, sparkles.points);
+
+  const lastTip = new THREE.Vector3();
+  let hasLastTip = false;
+  const point = new THREE.Vector3();
+  const jitter = new THREE.Vector3();
+  const color = new THREE.Color();
+
+  const update = (dt: number, tip: THREE.Vector3 | null) => {
+    if (tip) {
+      // Fill the gap since last frame so fast strokes stay continuous
+      const from = hasLastTip ? lastTip : tip;
+      for (let n = 0; n < TRAIL_PER_FRAME; n++) {
+        const t = (n + 1) / TRAIL_PER_FRAME;
+        point.lerpVectors(from, tip, t);
+        jitter.set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).multiplyScalar(0.3);
+        color.lerpColors(TRAIL_TAIL, TRAIL_HEAD, Math.random());
+        spawn(trail, point, jitter, color);
+      }
+      lastTip.copy(tip);
+      hasLastTip = true;
+    } else {
+      hasLastTip = false;
+    }
+
+    step(trail, dt, TRAIL_LIFE, 0.96, 0.5);
+    step(sparkles, dt, SPARKLE_LIFE, 0.94, 2.5);
+  };
+
+  const burst = (position: THREE.Vector3) => {
+    for (let n = 0; n < SPARKLE_COUNT / 2; n++) {
+      // Random direction on a sphere, random speed
+      jitter.randomDirection().multiplyScalar(3 + Math.random() * 6);
+      spawn(sparkles, position, jitter, SPARKLE_COLORS[n % SPARKLE_COLORS.length]);
+    }
+  };
+
+  const dispose = () => {
+    [trail, sparkles].forEach(pool => {
+      pool.points.geometry.dispose();
+      (pool.points.material as THREE.Material).dispose();
+    });
+  };
+
+  return { group, update, burst, dispose };
+};
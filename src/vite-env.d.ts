@@ -0,0 +1,9 @@
+/// <reference types="vite/client" />
+
+// Injected by vite.config.ts from the installed @mediapipe/tasks-vision package
+declare const __MEDIAPIPE_VERSION__: string;
+
+interface ImportMetaEnv {
+  // Optional override for where the MediaPipe wasm/model files are served from
+  readonly VITE_MEDIAPIPE_BASE?: string;
+}
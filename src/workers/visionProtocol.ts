@@ -0,0 +1,33 @@
+import { HeadPose, SegmentationMask, VisionResult } from "../types";
+import { GestureThresholds } from "../utils/gestures";
+import { RawHand } from "../services/handTracker";
+import { VisionLoadErrorCode, VisionLoadProgress } from "../services/visionLoader";
+
+// --- Main thread -> worker ---
+
+export type VisionWorkerRequest =
+  | { type: 'init'; assetBasePath: string }
+  | { type: 'frame'; frame: ImageBitmap; timestamp: number }
+  | { type: 'reset' }
+  | { type: 'thresholds'; thresholds: GestureThresholds }
+  | { type: 'face'; enabled: boolean }
+  | { type: 'segmentation'; enabled: boolean };
+
+// Optional models that load on demand next to the hand tracker
+export type VisionFeature = 'face' | 'segmentation';
+
+// --- Worker -> main thread ---
+
+export type VisionWorkerResponse =
+  | { type: 'progress'; progress: VisionLoadProgress }
+  | { type: 'ready' }
+  | { type: 'error'; code: VisionLoadErrorCode; message: string }
+  // Raw landmarks (for recording) plus the classified, slot-tracked gestures.
+  // `head` is the latest face estimate (null while face tracking is off or no face is seen).
+  | { type: 'result'; hands: RawHand[]; result: VisionResult; head: HeadPose | null; timestamp: number }
+  // The frame was dropped without detection (not ready yet, or an out-of-order timestamp)
+  | { type: 'skipped'; timestamp: number }
+  // Sent just before the result of the same frame, while segmentation is on
+  | { type: 'mask'; mask: SegmentationMask }
+  // An optional model could not start; hand tracking keeps running
+  | { type: 'feature-error'; feature: VisionFeature; message: string };
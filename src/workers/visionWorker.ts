@@ -0,0 +1,144 @@
+import { FaceLandmarker, HandLandmarker, ImageSegmenter } from "@mediapipe/tasks-vision";
+import { HandTracker, RawHand } from "../services/handTracker";
+import { VisionLoadError, loadFaceLandmarker, loadHandLandmarker, loadSelfieSegmenter } from "../services/visionLoader";
+import { parseHandedness } from "../utils/gestures";
+import { HEAD_TRACKING, headPoseFromFace } from "../utils/headTracking";
+import { SELFIE_CUTOUT } from "../utils/selfieCutout";
+import { HeadPose } from "../types";
+import { VisionWorkerRequest, VisionWorkerResponse } from "./visionProtocol";
+
+// Hand detection off the render thread: frames come in as ImageBitmaps,
+// landmarks and classified gestures go back out. Optional face tracking and
+// selfie segmentation reuse the same frames at a fraction of the rate.
+
+const scope = self as unknown as {
+  postMessage: (message: VisionWorkerResponse, transfer?: Transferable[]) => void;
+  onmessage: ((e: MessageEvent<VisionWorkerRequest>) => void) | null;
+};
+
+let landmarker: HandLandmarker | null = null;
+let lastTimestamp = -1;
+const tracker = new HandTracker();
+
+let assetBase = '';
+let faceLandmarker: FaceLandmarker | null = null;
+let faceLoading: Promise<void> | null = null;
+let faceEnabled = false;
+let faceFrame = 0;
+let head: HeadPose | null = null;
+
+let segmenter: ImageSegmenter | null = null;
+let segmenterLoading: Promise<void> | null = null;
+let segmentationEnabled = false;
+let segmentationFrame = 0;
+
+const init = async (assetBasePath: string) => {
+  assetBase = assetBasePath;
+  try {
+    landmarker = await loadHandLandmarker(assetBasePath, (progress) => scope.postMessage({ type: 'progress', progress }));
+    scope.postMessage({ type: 'ready' });
+  } catch (e) {
+    const error = e instanceof VisionLoadError ? e : new VisionLoadError('INIT_FAILED', String(e), { cause: e });
+    console.error("Error initializing MediaPipe:", error.cause ?? error);
+    scope.postMessage({ type: 'error', code: error.code, message: error.message });
+  }
+};
+
+const reset = () => {
+  tracker.reset();
+  head = null;
+};
+
+const setFaceTracking = (enabled: boolean) => {
+  faceEnabled = enabled;
+  head = null;
+  if (!enabled || faceLandmarker || faceLoading) return;
+  faceLoading = loadFaceLandmarker(assetBase)
+    .then((landmarker) => { faceLandmarker = landmarker; })
+    .catch((e) => {
+      console.error("Error initializing face tracking:", e.cause ?? e);
+      scope.postMessage({ type: 'feature-error', feature: 'face', message: String(e.message ?? e) });
+    })
+    .finally(() => { faceLoading = null; });
+};
+
+const detectFace = (frame: ImageBitmap, timestamp: number) => {
+  if (!faceEnabled || !faceLandmarker) return;
+  faceFrame = (faceFrame + 1) % HEAD_TRACKING.frameInterval;
+  if (faceFrame !== 0) return;
+  try {
+    const results = faceLandmarker.detectForVideo(frame, timestamp);
+    const landmarks = results.faceLandmarks?.[0];
+    head = landmarks ? headPoseFromFace(landmarks, results.faceBlendshapes?.[0]?.categories) : null;
+  } catch (e) {
+    console.warn("Face detection failed for frame", e);
+  }
+};
+
+const setSegmentation = (enabled: boolean) => {
+  segmentationEnabled = enabled;
+  if (!enabled || segmenter || segmenterLoading) return;
+  segmenterLoading = loadSelfieSegmenter(assetBase)
+    .then((loaded) => { segmenter = loaded; })
+    .catch((e) => {
+      console.error("Error initializing selfie segmentation:", e.cause ?? e);
+      scope.postMessage({ type: 'feature-error', feature: 'segmentation', message: String(e.message ?? e) });
+    })
+    .finally(() => { segmenterLoading = null; });
+};
+
+const segment = (frame: ImageBitmap, timestamp: number) => {
+  if (!segmentationEnabled || !segmenter) return;
+  segmentationFrame = (segmentationFrame + 1) % SELFIE_CUTOUT.frameInterval;
+  if (segmentationFrame !== 0) return;
+  try {
+    const result = segmenter.segmentForVideo(frame, timestamp);
+    const confidence = result.confidenceMasks?.[0];
+    if (confidence) {
+      // Bytes instead of floats: a quarter of the transfer, and what the texture wants anyway
+      const values = confidence.getAsFloat32Array();
+      const data = new Uint8Array(values.length);
+      for (let i = 0; i < values.length; i++) data[i] = values[i] * 255;
+      scope.postMessage({ type: 'mask', mask: { data, width: confidence.width, height: confidence.height } }, [data.buffer]);
+    }
+    result.close();
+  } catch (e) {
+    console.warn("Segmentation failed for frame", e);
+  }
+};
+
+const detect = (frame: ImageBitmap, timestamp: number) => {
+  // MediaPipe requires strictly increasing timestamps in VIDEO mode
+  if (!landmarker || timestamp <= lastTimestamp) {
+    frame.close();
+    scope.postMessage({ type: 'skipped', timestamp });
+    return;
+  }
+  lastTimestamp = timestamp;
+
+  let hands: RawHand[] = [];
+  try {
+    const results = landmarker.detectForVideo(frame, timestamp);
+    hands = (results.landmarks || []).map((landmarks, i) => ({
+      landmarks,
+      handedness: parseHandedness(results.handedness?.[i]?.[0]?.categoryName),
+    }));
+  } catch (e) {
+    console.warn("Hand detection failed for frame", e);
+  }
+  detectFace(frame, timestamp);
+  segment(frame, timestamp);
+  frame.close();
+  // Always answer so the main thread can send the next frame
+  scope.postMessage({ type: 'result', hands, result: tracker.process(hands), head, timestamp });
+};
+
+scope.onmessage = (e) => {
+  const message = e.data;
+  if (message.type === 'init') init(message.assetBasePath);
+  else if (message.type === 'frame') detect(message.frame, message.timestamp);
+  else if (message.type === 'reset') reset();
+  else if (message.type === 'thresholds') tracker.setThresholds(message.thresholds);
+  else if (message.type === 'face') setFaceTracking(message.enabled);
+  else if (message.type === 'segmentation') setSegmentation(message.enabled);
+};
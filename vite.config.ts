@@ -1,7 +1,74 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// --- MEDIAPIPE SELF-HOSTING ---
+// The wasm runtime is copied out of the installed @mediapipe/tasks-vision package so
+// the version served always matches the JS bundle. The models live in public/ (npm run fetch-models).
+const MEDIAPIPE_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision');
+const MEDIAPIPE_WASM_DIR = path.join(MEDIAPIPE_DIR, 'wasm');
+const MEDIAPIPE_VERSION: string = JSON.parse(
+  fs.readFileSync(path.join(MEDIAPIPE_DIR, 'package.json'), 'utf-8')
+).version;
+const MODELS_DIR = path.resolve(__dirname, 'public/mediapipe/models');
+// Hand detection can't start without this one
+const HAND_MODEL_FILE = path.join(MODELS_DIR, 'hand_landmarker.task');
+// Optional features just stay off without theirs
+const OPTIONAL_MODEL_FILES = ['face_landmarker.task', 'selfie_segmenter.tflite'].map(file => path.join(MODELS_DIR, file));
+
+// `externalBase` (VITE_MEDIAPIPE_BASE) means the models are hosted elsewhere and not bundled
+const mediapipeAssets = (externalBase?: string): Plugin => {
+  const manifest = JSON.stringify({ version: MEDIAPIPE_VERSION });
+
+  return {
+    name: 'mediapipe-assets',
+
+    // Dev: serve wasm + manifest straight from node_modules
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = (req.url || '').split('?')[0];
+        if (url.endsWith('/mediapipe/manifest.json')) {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(manifest);
+          return;
+        }
+        const match = url.match(/\/mediapipe\/wasm\/([\w.-]+)$/);
+        if (match) {
+          const file = path.join(MEDIAPIPE_WASM_DIR, match[1]);
+          if (fs.existsSync(file)) {
+            res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+            fs.createReadStream(file).pipe(res);
+            return;
+          }
+        }
+        next();
+      });
+    },
+
+    // Build: emit wasm + manifest into dist/mediapipe
+    generateBundle() {
+      for (const fileName of fs.readdirSync(MEDIAPIPE_WASM_DIR)) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `mediapipe/wasm/${fileName}`,
+          source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, fileName)),
+        });
+      }
+      this.emitFile({ type: 'asset', fileName: 'mediapipe/manifest.json', source: manifest });
+
+      if (externalBase) return;
+      if (!fs.existsSync(HAND_MODEL_FILE)) {
+        this.error(`Hand model missing at ${HAND_MODEL_FILE}. Run "npm run fetch-models" before building.`);
+      }
+      const missing = OPTIONAL_MODEL_FILES.filter(file => !fs.existsSync(file));
+      if (missing.length > 0) {
+        this.warn(`Optional models missing, their features will be unavailable: ${missing.join(', ')}`);
+      }
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +76,15 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets(env.VITE_MEDIAPIPE_BASE)],
+      worker: {
+        // The vision worker imports @mediapipe/tasks-vision as a module
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        __MEDIAPIPE_VERSION__: JSON.stringify(MEDIAPIPE_VERSION)
       },
       resolve: {
         alias: {